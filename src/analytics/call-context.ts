@@ -0,0 +1,201 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { AnalyticsClient } from '../core/client.js'
+import { createTraceContext, extractTraceparent, setTraceContext } from '../core/trace-context.js'
+import { pseudonymizeUserInfo } from '../core/pseudonymize.js'
+import { createPiiScanner } from '../core/pii.js'
+import type { PiiScanner, PiiScanOptions } from '../core/pii.js'
+import type { UserPrivacyOptions } from '../core/pseudonymize.js'
+import type { ConsentLevel, MCPEvent } from '../core/types.js'
+import { applyConsent, resolveConsent } from './consent.js'
+import type { EventSampler } from './sampling.js'
+import type { ConsentCheck } from './consent.js'
+import type { AnalyticsToolOptions, UserInfo } from './register-analytics-tool.js'
+
+/**
+ * Per-call metadata shared by every analytics event of a tool, resource or prompt call
+ */
+export type CallContext = {
+  mcpData: {
+    sessionId: string | null
+    requestId: string | number | null
+    traceId: string
+    spanId: string
+    parentSpanId: string | null
+  }
+  userInfo: UserInfo
+  clientVersion: { name: string; version: string } | null
+  consent: ConsentLevel
+}
+
+/**
+ * Call context plus the call's sanitized parameters, collected before the original callback runs
+ */
+export type PreparedCall = CallContext & {
+  piiScanner: PiiScanner | undefined
+  parameters: any
+}
+
+/**
+ * Collects session, request, trace, user and client metadata for a single MCP call.
+ * Every lookup is optional - failures fall back to empty values so the call itself
+ * is never affected.
+ * 
+ * @param mcpServer - The MCP server handling the call
+ * @param extra - The request extra passed to the MCP handler
+ * @param options - Session, user info and consent getters and the user privacy mode from the analytics options
+ * @returns Metadata to spread into analytics events
+ */
+export async function collectCallContext(
+  mcpServer: McpServer,
+  extra: any,
+  options: {
+    getSessionId?: () => string | null
+    getUserInfo?: () => UserInfo
+    getConsent?: ConsentCheck
+    privacy?: UserPrivacyOptions
+  }
+): Promise<CallContext> {
+  // Extract session ID from multiple sources with error handling
+  let sessionId: string | null = null
+  try {
+    if (options.getSessionId) {
+      sessionId = options.getSessionId()
+    }
+  } catch {
+    // Silent fallback - session tracking is optional
+  }
+  
+  // Fallback to session ID from extra parameters
+  if (!sessionId && extra?.sessionId) {
+    sessionId = extra.sessionId
+  }
+  
+  // Continue the caller's trace (or start a new one) and expose it via getTraceContext(extra)
+  const traceContext = createTraceContext(extractTraceparent(extra))
+  setTraceContext(extra, traceContext)
+  
+  // Extract user information with error handling
+  let userInfo: UserInfo = {}
+  try {
+    if (options.getUserInfo) {
+      userInfo = options.getUserInfo()
+    }
+  } catch (error) {
+    console.warn('[MCP Analytics] getUserInfo failed, continuing without user data:', error)
+  }
+
+  const consent = await resolveConsent(options.getConsent)
+
+  // Hash or drop identifiers before they are attached to any event
+  if (options.privacy && consent === 'full') {
+    userInfo = await pseudonymizeUserInfo(userInfo, options.privacy)
+  }
+
+  // Extract MCP client version information if available
+  let clientVersion: { name: string; version: string } | null = null
+  try {
+    const serverAny = mcpServer as any
+    if (serverAny.server?._clientVersion) {
+      clientVersion = serverAny.server._clientVersion
+    }
+  } catch {
+    // Silent fallback - client version is optional metadata
+  }
+
+  return {
+    // MCP-specific metadata for request tracking
+    mcpData: {
+      sessionId,
+      requestId: extra?.requestId ?? null,
+      traceId: traceContext.traceId,
+      spanId: traceContext.spanId,
+      parentSpanId: traceContext.parentSpanId,
+    },
+    userInfo,
+    clientVersion,
+    consent
+  }
+}
+
+/**
+ * Collects the call context and the call's sanitized parameters. This is analytics
+ * work only: a failure is logged and returns null, so the call still runs without
+ * being recorded.
+ * 
+ * @param mcpServer - The MCP server handling the call
+ * @param extra - The request extra passed to the MCP handler
+ * @param options - Context getters, privacy mode and PII scanning from the analytics options
+ * @param sanitize - Captures and sanitizes the call's parameters using the call's PII scanner
+ * @returns The prepared call, or null if preparing it failed
+ */
+export async function prepareCall(
+  mcpServer: McpServer,
+  extra: any,
+  options: Parameters<typeof collectCallContext>[2] & { pii?: boolean | PiiScanOptions },
+  sanitize: (piiScanner: PiiScanner | undefined) => any
+): Promise<PreparedCall | null> {
+  try {
+    const context = await collectCallContext(mcpServer, extra, options)
+    const piiScanner = createPiiScanner(options.pii)
+    const parameters = await sanitize(piiScanner)
+    return { ...context, piiScanner, parameters }
+  } catch (error) {
+    console.warn('[MCP Analytics] Failed to prepare call analytics, not recording this call:', error)
+    return null
+  }
+}
+
+/**
+ * Resolves where a wrapper gets its analytics client on each call: the getter from the
+ * options (so a client recreated after registration is picked up), the injected shared
+ * client, or a dedicated client initialized from the options.
+ * 
+ * @param options - Analytics configuration options
+ * @returns A getter for the client, or null if analytics is not configured or initialization failed
+ */
+export function resolveAnalyticsClient(options: AnalyticsToolOptions): (() => AnalyticsClient | null) | null {
+  if (options.getAnalyticsClient) return options.getAnalyticsClient
+  if (options.analyticsClient) {
+    const sharedClient = options.analyticsClient
+    return () => sharedClient
+  }
+  if (!options.apiKey) return null
+
+  try {
+    const client = new AnalyticsClient({
+      apiKey: options.apiKey,
+      serverName: options.serverName || 'MCP Server',
+      serverVersion: options.serverVersion || '1.0.0',
+      environment: options.environment || 'production',
+      batchSize: options.batchSize,
+      flushInterval: options.flushInterval,
+      enabled: options.enabled !== false
+    })
+    return () => client
+  } catch (error) {
+    console.warn('[MCP Analytics] Client initialization failed, analytics disabled:', error)
+    return null
+  }
+}
+
+/**
+ * Queues an event for a call after applying sampling and the user's consent level.
+ * Sampling runs first so per-session decisions can use the session id.
+ * 
+ * @param client - Analytics client to queue the event on
+ * @param event - Fully built analytics event
+ * @param consent - The user's consent level
+ * @param sampler - Sampler for the tool, resource or prompt, if sampling is configured
+ */
+export function queueCallEvent(
+  client: AnalyticsClient,
+  event: MCPEvent,
+  consent: ConsentLevel,
+  sampler?: EventSampler
+): void {
+  const sampled = sampler ? sampler.sample(event) : event
+  if (!sampled) return
+
+  const consented = applyConsent(sampled, consent)
+  if (consented) client.queueEvent(consented)
+}
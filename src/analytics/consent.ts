@@ -0,0 +1,110 @@
+import type { ConsentLevel, MCPEvent } from '../core/types.js'
+
+export const CONSENT_LEVELS: readonly [ConsentLevel, ...ConsentLevel[]] = ['full', 'anonymous', 'aggregate', 'none']
+
+/**
+ * Per-user consent check, e.g. a lookup in your own preferences store.
+ * Return undefined to fall back to the default (`full`).
+ */
+export type ConsentCheck = () => ConsentLevel | boolean | undefined | Promise<ConsentLevel | boolean | undefined>
+
+// Fields that identify a user or customer
+const IDENTITY_FIELDS = ['userId', 'email', 'username', 'customerId'] as const
+
+// Fields kept when an event is downgraded to an anonymous counter
+const AGGREGATE_FIELDS = [
+  'eventType', 'eventName', 'serverName', 'serverVersion', 'environment', 'timestamp',
+  'toolName', 'resourceName', 'promptName', 'duration', 'success', 'outcome',
+  'tags', 'category', 'toolVersion',
+  // Free quota counters are not identifying and are needed to measure trial-to-paid conversion
+  'freeQuotaLimit', 'freeQuotaUsed', 'freeQuotaRemaining', 'freeQuotaPeriod', 'freeQuotaResetsAt',
+  // Why a call went unbilled, so billing can be reconciled without identifying the user
+  'billingTiming', 'usageNotBilledReason'
+] as const
+
+/**
+ * Normalizes a consent value. Booleans map to `full` / `none`; unknown values are ignored.
+ * 
+ * @param value - Consent value from OAuth props, agent state or a callback
+ * @returns The consent level, or undefined when the value isn't recognized
+ */
+export function normalizeConsent(value: unknown): ConsentLevel | undefined {
+  if (value === true) return 'full'
+  if (value === false) return 'none'
+  return CONSENT_LEVELS.includes(value as ConsentLevel) ? value as ConsentLevel : undefined
+}
+
+/**
+ * Runs a consent check. Fails closed: if the check throws, nothing is recorded.
+ * 
+ * @param getConsent - Consent check from the analytics options
+ * @returns The user's consent level (default: `full`)
+ */
+export async function resolveConsent(getConsent?: ConsentCheck): Promise<ConsentLevel> {
+  if (!getConsent) return 'full'
+  try {
+    return normalizeConsent(await getConsent()) ?? 'full'
+  } catch (error) {
+    console.warn('[MCP Analytics] Consent check failed, suppressing events:', error)
+    return 'none'
+  }
+}
+
+/**
+ * Downgrades an event according to the user's consent level.
+ * 
+ * @param event - Fully built analytics event
+ * @param consent - The user's consent level
+ * @returns The event to record, or null when it must be suppressed
+ */
+export function applyConsent(event: MCPEvent, consent: ConsentLevel): MCPEvent | null {
+  switch (consent) {
+    case 'none':
+      return null
+    case 'anonymous': {
+      const anonymous: MCPEvent = { ...event, consent }
+      for (const field of IDENTITY_FIELDS) delete anonymous[field]
+      return anonymous
+    }
+    case 'aggregate': {
+      const aggregate: Record<string, unknown> = { consent }
+      for (const field of AGGREGATE_FIELDS) {
+        if (event[field] !== undefined) aggregate[field] = event[field]
+      }
+      return aggregate as MCPEvent
+    }
+    default:
+      return event
+  }
+}
+
+/**
+ * Stores each user's own tracking preference, set through the consent tool
+ */
+export interface ConsentStore {
+  /** Returns the preference of a user, or null if they never set one */
+  get(userId: string): Promise<ConsentLevel | null>
+  /** Creates or replaces the preference of a user */
+  put(userId: string, level: ConsentLevel): Promise<void>
+}
+
+const CONSENT_KEY_PREFIX = 'mcp-analytics:consent:'
+
+/**
+ * Consent store backed by a Workers KV namespace. Preferences are keyed by user,
+ * so an opt-out outlives the MCP session it was made in.
+ */
+export class KVConsentStore implements ConsentStore {
+  /**
+   * @param namespace - KV namespace binding, e.g. `env.MCP_ANALYTICS_KV`
+   */
+  constructor(private namespace: KVNamespace) {}
+
+  async get(userId: string): Promise<ConsentLevel | null> {
+    return normalizeConsent(await this.namespace.get(`${CONSENT_KEY_PREFIX}${userId}`)) ?? null
+  }
+
+  async put(userId: string, level: ConsentLevel): Promise<void> {
+    await this.namespace.put(`${CONSENT_KEY_PREFIX}${userId}`, level)
+  }
+}
@@ -0,0 +1,49 @@
+import { assertJsonSerializable } from '../core/utils.js'
+
+/**
+ * Per-tool metadata attached to analytics events for slicing dashboards
+ * by team and feature area
+ */
+export type ToolMetadataOptions = {
+  tags?: string[]
+  category?: string
+  owner?: string
+  version?: string // Tool version, recorded as toolVersion on events
+  // Dynamic fields merged into completed/failed events (result is undefined on failure)
+  enrich?: (params: any, result: any, extra: any) => Record<string, unknown> | Promise<Record<string, unknown>>
+}
+
+/**
+ * Builds the custom fields for an event from static tool metadata and the
+ * enrich hook. Enrich failures and non-serializable fields are logged and
+ * skipped so they never affect the tool call.
+ * 
+ * @returns Fields to spread into the event before its core fields
+ */
+export async function resolveEventMetadata(
+  options: ToolMetadataOptions,
+  params: any,
+  result: any,
+  extra: any
+): Promise<Record<string, unknown>> {
+  const metadata: Record<string, unknown> = {}
+
+  if (options.enrich) {
+    try {
+      const enriched = await options.enrich(params, result, extra)
+      if (enriched && typeof enriched === 'object') {
+        assertJsonSerializable(enriched, 'enrich()')
+        Object.assign(metadata, enriched)
+      }
+    } catch (error) {
+      console.warn('[MCP Analytics] enrich() failed, continuing without custom fields:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  if (options.tags && options.tags.length > 0) metadata.tags = options.tags
+  if (options.category) metadata.category = options.category
+  if (options.owner) metadata.owner = options.owner
+  if (options.version) metadata.toolVersion = options.version
+
+  return metadata
+}
@@ -0,0 +1,84 @@
+import type { CallOutcome } from '../core/types.js'
+
+// JSON-RPC error code used by MCP for invalid parameters
+const INVALID_PARAMS_CODE = -32602
+
+/**
+ * Checks whether a tool result reports an error via `isError: true`.
+ */
+export function isToolErrorResult(result: unknown): boolean {
+  return !!result && typeof result === 'object' && (result as any).isError === true
+}
+
+/**
+ * Extracts a human-readable message from a tool error result's text content.
+ */
+export function getToolErrorMessage(result: any): string | undefined {
+  try {
+    const textItem = Array.isArray(result?.content)
+      ? result.content.find((item: any) => item?.type === 'text' && typeof item.text === 'string')
+      : undefined
+    return textItem ? textItem.text.substring(0, 500) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Classifies a thrown error into a call outcome.
+ * 
+ * @param error - The error thrown by the callback
+ * @param extra - The request extra, used to detect client cancellation
+ * @returns 'cancelled', 'validation_error' or 'exception'
+ */
+export function classifyError(error: unknown, extra?: any): CallOutcome {
+  const err = error as any
+
+  if (extra?.signal?.aborted || err?.name === 'AbortError') {
+    return 'cancelled'
+  }
+
+  if (err?.name === 'ZodError' || err?.code === INVALID_PARAMS_CODE) {
+    return 'validation_error'
+  }
+
+  return 'exception'
+}
+
+/**
+ * Error details recorded on a failed call event
+ */
+export type CallFailure = {
+  errorType: string
+  errorMessage?: string
+  outcome: CallOutcome
+}
+
+/**
+ * Describes an error thrown by a tool, resource or prompt callback.
+ * 
+ * @param error - The error thrown by the callback
+ * @param extra - The request extra, used to detect client cancellation
+ * @returns Error type, message and classified outcome
+ */
+export function describeException(error: unknown, extra?: any): CallFailure {
+  return {
+    errorType: (error as Error)?.constructor?.name || 'Error',
+    errorMessage: (error as Error)?.message,
+    outcome: classifyError(error, extra)
+  }
+}
+
+/**
+ * Describes a tool result returned with `isError: true`.
+ * 
+ * @param result - The tool result
+ * @returns Error details with the 'tool_error' outcome
+ */
+export function describeToolError(result: unknown): CallFailure {
+  return {
+    errorType: 'ToolError',
+    errorMessage: getToolErrorMessage(result),
+    outcome: 'tool_error'
+  }
+}
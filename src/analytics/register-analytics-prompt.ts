@@ -0,0 +1,125 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { sanitizeParameters, sanitizeResult } from '../core/utils.js'
+import { prepareCall, queueCallEvent, resolveAnalyticsClient } from './call-context.js'
+import { createSampler } from './sampling.js'
+import { describeException } from './outcome.js'
+import { createPromptGetEvent } from './translator.js'
+import { resolveEventMetadata } from './metadata.js'
+import type { AnalyticsToolOptions } from './register-analytics-tool.js'
+
+/**
+ * Registers an MCP prompt with automatic analytics tracking. Every request emits an
+ * `mcp.prompt.get` event with sanitized arguments, duration, user, session and client
+ * version data. The original prompt functionality is preserved - if analytics fail,
+ * the prompt continues to work normally.
+ * 
+ * @param mcpServer - The MCP server instance to register the prompt with
+ * @param promptName - Unique identifier for the prompt
+ * @param promptDescription - Human-readable description of the prompt
+ * @param argsSchema - Zod schema defining the prompt's arguments, or undefined for none
+ * @param originalCallback - The original prompt implementation function
+ * @param options - Analytics configuration options
+ */
+export function registerAnalyticsPrompt(
+  mcpServer: McpServer,
+  promptName: string,
+  promptDescription: string,
+  argsSchema: any,
+  originalCallback: any,
+  options: AnalyticsToolOptions
+): void {
+  const hasArgs = argsSchema !== undefined && argsSchema !== null
+  const register = (callback: any) => hasArgs
+    ? mcpServer.prompt(promptName, promptDescription, argsSchema, callback)
+    : mcpServer.prompt(promptName, promptDescription, callback)
+
+  const getAnalyticsClient = resolveAnalyticsClient(options)
+
+  // If analytics is not configured, register prompt normally without analytics
+  if (!getAnalyticsClient) {
+    register(originalCallback)
+    return
+  }
+
+  const sampler = createSampler(options.sampling, promptName)
+  const eventSource = {
+    serverName: options.serverName || 'MCP Server',
+    serverVersion: options.serverVersion,
+    environment: options.environment
+  }
+
+  // Prompts with arguments receive (args, extra), prompts without receive (extra)
+  const wrappedCallback = async (...callArgs: any[]) => {
+    const args = hasArgs ? callArgs[0] : undefined
+    const extra = callArgs[callArgs.length - 1]
+
+    // Collect session, request, trace, user and client metadata - if this fails the prompt is not recorded
+    const prepared = await prepareCall(mcpServer, extra, options, piiScanner =>
+      sanitizeParameters(args || {}, options.redaction, piiScanner)
+    )
+    const analyticsClient = prepared ? getAnalyticsClient() : null
+
+    // Time only the prompt itself, not the consent and hashing work above
+    const startTime = performance.now()
+
+    try {
+      const result = await originalCallback(...callArgs)
+      const duration = Math.max(1, Math.round(performance.now() - startTime))
+
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters } = prepared
+
+        let sanitizedResult: any = undefined
+        if (options.trackResults !== false) {
+          try {
+            sanitizedResult = sanitizeResult(result, piiScanner)
+          } catch (sanitizeError) {
+            console.warn('[MCP Analytics] Failed to sanitize prompt result, excluding from event:', sanitizeError)
+            sanitizedResult = { _sanitizationFailed: true }
+          }
+        }
+
+        const customFields = await resolveEventMetadata(options, args, result, extra)
+
+        const event = createPromptGetEvent(
+          eventSource,
+          { promptName, parameters, result: sanitizedResult, duration },
+          { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        )
+
+        try {
+          queueCallEvent(analyticsClient, event, consent, sampler)
+        } catch (analyticsError) {
+          console.warn('[MCP Analytics] Failed to queue prompt event:', analyticsError)
+        }
+      }
+
+      return result
+    } catch (error) {
+      const duration = Math.max(1, Math.round(performance.now() - startTime))
+
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters } = prepared
+        const customFields = await resolveEventMetadata(options, args, undefined, extra)
+
+        const event = createPromptGetEvent(
+          eventSource,
+          { promptName, parameters, duration },
+          { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() },
+          describeException(error, extra)
+        )
+
+        try {
+          queueCallEvent(analyticsClient, event, consent, sampler)
+        } catch (analyticsError) {
+          console.warn('[MCP Analytics] Failed to queue prompt error event:', analyticsError)
+        }
+      }
+
+      // Re-throw the original error to maintain normal error handling
+      throw error
+    }
+  }
+
+  register(wrappedCallback)
+}
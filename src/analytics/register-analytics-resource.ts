@@ -0,0 +1,123 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ResourceMetadata } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { sanitizeParameters, sanitizeResult } from '../core/utils.js'
+import { prepareCall, queueCallEvent, resolveAnalyticsClient } from './call-context.js'
+import { createSampler } from './sampling.js'
+import { describeException } from './outcome.js'
+import { createResourceReadEvent } from './translator.js'
+import { resolveEventMetadata } from './metadata.js'
+import type { AnalyticsToolOptions } from './register-analytics-tool.js'
+
+/**
+ * Registers an MCP resource with automatic analytics tracking. Every read emits an
+ * `mcp.resource.read` event with duration, user, session and client version data.
+ * The original resource functionality is preserved - if analytics fail, the resource
+ * continues to work normally.
+ * 
+ * @param mcpServer - The MCP server instance to register the resource with
+ * @param resourceName - Unique identifier for the resource
+ * @param uriOrTemplate - Fixed resource URI or a ResourceTemplate for dynamic resources
+ * @param metadata - Resource metadata such as description and mimeType
+ * @param readCallback - The original resource read function
+ * @param options - Analytics configuration options
+ */
+export function registerAnalyticsResource(
+  mcpServer: McpServer,
+  resourceName: string,
+  uriOrTemplate: string | ResourceTemplate,
+  metadata: ResourceMetadata,
+  readCallback: any,
+  options: AnalyticsToolOptions
+): void {
+  const getAnalyticsClient = resolveAnalyticsClient(options)
+
+  // If analytics is not configured, register resource normally without analytics
+  if (!getAnalyticsClient) {
+    mcpServer.resource(resourceName, uriOrTemplate as any, metadata, readCallback)
+    return
+  }
+
+  const isTemplate = typeof uriOrTemplate !== 'string'
+  const sampler = createSampler(options.sampling, resourceName)
+  const eventSource = {
+    serverName: options.serverName || 'MCP Server',
+    serverVersion: options.serverVersion,
+    environment: options.environment
+  }
+
+  // Static resources receive (uri, extra), templates receive (uri, variables, extra)
+  const wrappedCallback = async (...callArgs: any[]) => {
+    const uri: URL | undefined = callArgs[0]
+    const variables = isTemplate ? callArgs[1] : undefined
+    const extra = callArgs[callArgs.length - 1]
+
+    // Collect session, request, trace, user and client metadata - if this fails the read is not recorded
+    const prepared = await prepareCall(mcpServer, extra, options, piiScanner =>
+      variables ? sanitizeParameters(variables, options.redaction, piiScanner) : undefined
+    )
+    const analyticsClient = prepared ? getAnalyticsClient() : null
+
+    // Time only the read itself, not the consent and hashing work above
+    const startTime = performance.now()
+
+    try {
+      const result = await readCallback(...callArgs)
+      const duration = Math.max(1, Math.round(performance.now() - startTime))
+
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters } = prepared
+
+        let sanitizedResult: any = undefined
+        if (options.trackResults !== false) {
+          try {
+            sanitizedResult = sanitizeResult(result, piiScanner)
+          } catch (sanitizeError) {
+            console.warn('[MCP Analytics] Failed to sanitize resource contents, excluding from event:', sanitizeError)
+            sanitizedResult = { _sanitizationFailed: true }
+          }
+        }
+
+        const customFields = await resolveEventMetadata(options, variables, result, extra)
+
+        const event = createResourceReadEvent(
+          eventSource,
+          { resourceName, resourceUri: uri ? String(uri) : null, parameters, result: sanitizedResult, duration },
+          { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        )
+
+        try {
+          queueCallEvent(analyticsClient, event, consent, sampler)
+        } catch (analyticsError) {
+          console.warn('[MCP Analytics] Failed to queue resource event:', analyticsError)
+        }
+      }
+
+      return result
+    } catch (error) {
+      const duration = Math.max(1, Math.round(performance.now() - startTime))
+
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters } = prepared
+        const customFields = await resolveEventMetadata(options, variables, undefined, extra)
+
+        const event = createResourceReadEvent(
+          eventSource,
+          { resourceName, resourceUri: uri ? String(uri) : null, parameters, duration },
+          { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() },
+          describeException(error, extra)
+        )
+
+        try {
+          queueCallEvent(analyticsClient, event, consent, sampler)
+        } catch (analyticsError) {
+          console.warn('[MCP Analytics] Failed to queue resource error event:', analyticsError)
+        }
+      }
+
+      // Re-throw the original error to maintain normal error handling
+      throw error
+    }
+  }
+
+  mcpServer.resource(resourceName, uriOrTemplate as any, metadata, wrappedCallback)
+}
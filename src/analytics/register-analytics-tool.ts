@@ -1,7 +1,19 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { AnalyticsClient } from '../core/client.js'
+import type { AnalyticsClient } from '../core/client.js'
 import { sanitizeParameters, sanitizeResult } from '../core/utils.js' // ← UPDATED: Import sanitizeResult
-import type { MCPEvent } from '../core/types.js'
+import type { RedactionOptions } from '../core/redaction.js'
+import type { PiiScanOptions } from '../core/pii.js'
+import type { UserPrivacyOptions } from '../core/pseudonymize.js'
+import type { ConsentCheck } from './consent.js'
+import type { SamplingOptions } from './sampling.js'
+import { prepareCall, queueCallEvent, resolveAnalyticsClient } from './call-context.js'
+import { createSampler } from './sampling.js'
+import { describeException, describeToolError, isToolErrorResult } from './outcome.js'
+import { createToolCompletedEvent, createToolFailedEvent } from './translator.js'
+import { resolveEventMetadata } from './metadata.js'
+import type { ToolMetadataOptions } from './metadata.js'
+import { createParamCapture } from './schema-capture.js'
+import type { ParamCaptureOptions } from './schema-capture.js'
 
 /**
  * User information extracted from OAuth provider props
@@ -15,7 +27,7 @@ export type UserInfo = {
 /**
  * Configuration options for analytics tool registration
  */
-export type AnalyticsToolOptions = {
+export type AnalyticsToolOptions = ToolMetadataOptions & ParamCaptureOptions & {
   apiKey?: string
   serverName?: string
   serverVersion?: string
@@ -24,8 +36,15 @@ export type AnalyticsToolOptions = {
   flushInterval?: number
   enabled?: boolean
   trackResults?: boolean // ← NEW: Option to enable/disable result tracking (default: true)
+  redaction?: RedactionOptions // Deep parameter redaction (key patterns, allowlist, path rules)
+  pii?: boolean | PiiScanOptions // Mask emails, card numbers, tokens, ... inside parameter and result text
+  privacy?: UserPrivacyOptions // Hash or drop userId/email/username before they are recorded
+  sampling?: SamplingOptions // Record a fraction of calls; kept events carry sampleRate
+  analyticsClient?: AnalyticsClient // Shared client; when set, batchSize/flushInterval are ignored
+  getAnalyticsClient?: () => AnalyticsClient | null // Called on every call instead of analyticsClient, for clients recreated after registration
   getUserInfo?: () => UserInfo
   getSessionId?: () => string | null
+  getConsent?: ConsentCheck // Per-user consent: 'full' | 'anonymous' | 'aggregate' | 'none' (or a boolean)
 }
 
 /**
@@ -47,81 +66,36 @@ export function registerAnalyticsTool(
   originalCallback: any,
   options: AnalyticsToolOptions
 ): void {
-  // If no API key provided, register tool normally without analytics
-  if (!options.apiKey) {
+  // Reuse the injected client so events from all tools share one queue and timer,
+  // otherwise initialize a dedicated client with graceful error handling
+  const getAnalyticsClient = resolveAnalyticsClient(options)
+
+  // If analytics is not configured, register tool normally without analytics
+  if (!getAnalyticsClient) {
     mcpServer.tool(toolName, toolDescription, paramsSchema, originalCallback)
     return
   }
 
-  let analyticsClient: AnalyticsClient | null = null
-  let isEnabled = false
-
-  // Initialize analytics client with graceful error handling
-  try {
-    analyticsClient = new AnalyticsClient({
-      apiKey: options.apiKey,
-      serverName: options.serverName || 'MCP Server',
-      serverVersion: options.serverVersion || '1.0.0',
-      environment: options.environment || 'production',
-      batchSize: options.batchSize,
-      flushInterval: options.flushInterval,
-      enabled: options.enabled !== false
-    })
-    isEnabled = true
-  } catch (error) {
-    console.warn('[MCP Analytics] Client initialization failed, analytics disabled:', error)
-    mcpServer.tool(toolName, toolDescription, paramsSchema, originalCallback)
-    return
+  // Decide from the schema which argument fields are recorded, and how
+  const paramCapture = createParamCapture(paramsSchema, options)
+  const sampler = createSampler(options.sampling, toolName)
+  const eventSource = {
+    serverName: options.serverName || 'MCP Server',
+    serverVersion: options.serverVersion,
+    environment: options.environment
   }
 
   // Wrap the original callback with analytics tracking
   const wrappedCallback = async (argsData: any, extra?: any) => {
-    const startTime = performance.now()
-    
-    // Extract session ID from multiple sources with error handling
-    let sessionId: string | null = null
-    try {
-      if (options.getSessionId) {
-        sessionId = options.getSessionId()
-      }
-    } catch (error) {
-      // Silent fallback - session tracking is optional
-    }
-    
-    // Fallback to session ID from extra parameters
-    if (!sessionId && extra?.sessionId) {
-      sessionId = extra.sessionId
-    }
-    
-    // MCP-specific metadata for request tracking
-    const mcpData = {
-      sessionId,
-      requestId: extra?.requestId || null,
-    }
-
-    // Extract user information with error handling
-    let userInfo: UserInfo = {}
-    try {
-      if (options.getUserInfo) {
-        userInfo = options.getUserInfo()
-      }
-    } catch (error) {
-      console.warn('[MCP Analytics] getUserInfo failed, continuing without user data:', error)
-    }
-
-    // Extract MCP client version information if available
-    let clientVersion: { name: string; version: string } | null = null
-    try {
-      const serverAny = mcpServer as any
-      if (serverAny.server?._clientVersion) {
-        clientVersion = serverAny.server._clientVersion
-      }
-    } catch (error) {
-      // Silent fallback - client version is optional metadata
-    }
+    // Collect session, request, trace, user and client metadata and sanitize parameters
+    // to remove sensitive data before logging - if this fails the call is not recorded
+    const prepared = await prepareCall(mcpServer, extra, options, async piiScanner =>
+      sanitizeParameters(await paramCapture.prepare(argsData || {}), paramCapture.redaction, piiScanner)
+    )
+    const analyticsClient = prepared ? getAnalyticsClient() : null
 
-    // Sanitize parameters to remove sensitive data before logging
-    const sanitizedParams = sanitizeParameters(argsData || {})
+    // Time only the tool itself, not the consent and hashing work above
+    const startTime = performance.now()
 
     try {
       // Execute the original tool function
@@ -130,36 +104,33 @@ export function registerAnalyticsTool(
       const duration = Math.max(1, Math.round(endTime - startTime))
 
       // Track successful tool execution
-      if (isEnabled && analyticsClient) {
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters: sanitizedParams } = prepared
+
         // ← NEW: Sanitize result if tracking is enabled
         let sanitizedResult: any = undefined;
         if (options.trackResults !== false) {
           try {
-            sanitizedResult = sanitizeResult(result);
+            sanitizedResult = sanitizeResult(result, piiScanner);
           } catch (sanitizeError) {
             console.warn('[MCP Analytics] Failed to sanitize result, excluding from event:', sanitizeError);
             sanitizedResult = { _sanitizationFailed: true };
           }
         }
 
-        const event: MCPEvent = {
-          eventType: 'mcp.tool.completed',
-          serverName: options.serverName || 'MCP Server',
-          timestamp: Date.now(),
-          serverVersion: options.serverVersion,
-          environment: options.environment,
-          toolName,
-          parameters: sanitizedParams,
-          result: sanitizedResult, // ← NEW: Include sanitized result
-          duration,
-          success: true,
-          clientVersion,
-          ...mcpData,
-          ...userInfo
-        }
+        // Results with isError: true are tool-reported failures, not completions
+        const isToolError = isToolErrorResult(result)
+
+        const customFields = await resolveEventMetadata(options, argsData, result, extra)
+
+        const call = { toolName, parameters: sanitizedParams, result: sanitizedResult, duration }
+        const context = { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        const event = isToolError
+          ? createToolFailedEvent(eventSource, call, describeToolError(result), context)
+          : createToolCompletedEvent(eventSource, call, context)
         
         try {
-          analyticsClient.queueEvent(event)
+          queueCallEvent(analyticsClient, event, consent, sampler)
         } catch (analyticsError) {
           console.warn('[MCP Analytics] Failed to queue success event:', analyticsError)
         }
@@ -172,27 +143,20 @@ export function registerAnalyticsTool(
       const duration = Math.max(1, Math.round(endTime - startTime))
       
       // Track failed tool execution with error details
-      if (isEnabled && analyticsClient) {
-        const event: MCPEvent = {
-          eventType: 'mcp.tool.failed',
-          serverName: options.serverName || 'MCP Server',
-          timestamp: Date.now(),
-          serverVersion: options.serverVersion,
-          environment: options.environment,
-          toolName,
-          parameters: sanitizedParams,
-          duration,
-          success: false,
-          errorType: (error as Error).constructor.name,
-          errorMessage: (error as Error).message,
-          clientVersion,
-          ...mcpData,
-          ...userInfo
-          // Note: No result tracking for failed executions
-        }
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, consent, piiScanner, parameters: sanitizedParams } = prepared
+        const customFields = await resolveEventMetadata(options, argsData, undefined, extra)
+
+        // Note: No result tracking for failed executions
+        const event = createToolFailedEvent(
+          eventSource,
+          { toolName, parameters: sanitizedParams, duration },
+          describeException(error, extra),
+          { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        )
         
         try {
-          analyticsClient.queueEvent(event)
+          queueCallEvent(analyticsClient, event, consent, sampler)
         } catch (analyticsError) {
           console.warn('[MCP Analytics] Failed to queue error event:', analyticsError)
         }
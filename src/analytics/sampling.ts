@@ -0,0 +1,62 @@
+import type { MCPEvent } from '../core/types.js'
+
+/**
+ * Event sampling configuration. Kept events record their `sampleRate` so the
+ * backend can re-weight counts (each kept event stands for 1 / sampleRate calls).
+ */
+export type SamplingOptions = {
+  rate?: number                        // Fraction of calls recorded, 0-1 (default: 1)
+  toolRates?: Record<string, number>   // Per tool/resource/prompt name, overrides `rate`
+  alwaysKeepFailures?: boolean         // Record every failed call regardless of rate (default: true)
+  perSession?: boolean                 // Keep or drop whole sessions deterministically (default: false)
+}
+
+/**
+ * Sampling decision for a single tool, resource or prompt
+ */
+export type EventSampler = {
+  rate: number
+  sample: (event: MCPEvent) => MCPEvent | null
+}
+
+/**
+ * Maps a string to a stable value in [0, 1) using 32-bit FNV-1a.
+ */
+export function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) / 0x100000000
+}
+
+/**
+ * Creates the sampler for a tool, resource or prompt.
+ * 
+ * @param options - Sampling configuration from the analytics options
+ * @param name - Tool, resource or prompt name used to look up `toolRates`
+ * @returns A sampler, or undefined when sampling isn't configured
+ */
+export function createSampler(options: SamplingOptions | undefined, name: string): EventSampler | undefined {
+  if (!options) return undefined
+
+  const configured = options.toolRates?.[name] ?? options.rate ?? 1
+  const rate = Number.isFinite(configured) ? Math.min(1, Math.max(0, configured)) : 1
+  const alwaysKeepFailures = options.alwaysKeepFailures !== false
+
+  const sample = (event: MCPEvent): MCPEvent | null => {
+    if (alwaysKeepFailures && event.success === false) {
+      return { ...event, sampleRate: 1 }
+    }
+
+    // Per-session sampling keeps a session's events together; calls without a session fall back to random
+    const roll = options.perSession && event.sessionId
+      ? hashToUnitInterval(event.sessionId)
+      : Math.random()
+
+    return roll < rate ? { ...event, sampleRate: rate } : null
+  }
+
+  return { rate, sample }
+}
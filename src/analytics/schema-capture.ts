@@ -0,0 +1,172 @@
+import type { RedactionOptions, RedactionRule } from '../core/redaction.js'
+import { hmacSha256, sha256Hex } from '../core/pseudonymize.js'
+
+/**
+ * How a schema field is recorded in analytics events:
+ * - `capture` - recorded even if its name looks sensitive; PII masking and truncation still apply
+ * - `sensitive` - always recorded as "[REDACTED]"
+ * - `hashOnly` - recorded as a SHA-256 hash (HMAC when a privacy secret is configured)
+ */
+export type ParamCaptureMode = 'capture' | 'sensitive' | 'hashOnly'
+
+/**
+ * Options controlling schema-aware parameter capture
+ */
+export type ParamCaptureOptions = {
+  // Side map of dotted field paths (use `*` for array items, e.g. "items.*.sku") to capture modes.
+  // Takes precedence over `[sensitive]`, `[capture]` and `[hashOnly]` tags in `.describe()` texts.
+  paramCapture?: Record<string, ParamCaptureMode>
+}
+
+/**
+ * Capture plan derived from a tool's Zod schema
+ */
+export type ParamCapture = {
+  redaction: RedactionOptions
+  // Keeps declared fields only and replaces hashOnly fields with their hashes
+  prepare: (args: Record<string, any>) => Promise<Record<string, any>>
+}
+
+const DESCRIPTION_TAG = /\[(capture|sensitive|hashOnly)\]/i
+
+const WRAPPER_TYPES = ['ZodOptional', 'ZodNullable', 'ZodDefault', 'ZodCatch', 'ZodReadonly']
+
+/**
+ * Reads the capture mode from a Zod description, e.g. `.describe('Tax ID [sensitive]')`.
+ */
+function modeFromDescription(description: unknown): ParamCaptureMode | undefined {
+  if (typeof description !== 'string') return undefined
+  const match = DESCRIPTION_TAG.exec(description)
+  if (!match) return undefined
+  const tag = match[1].toLowerCase()
+  return tag === 'hashonly' ? 'hashOnly' : tag as ParamCaptureMode
+}
+
+/**
+ * Returns the shape of a raw shape or ZodObject, or undefined for other schemas.
+ */
+function getShape(schema: any): Record<string, any> | undefined {
+  if (!schema || typeof schema !== 'object') return undefined
+  if (schema._def?.typeName === 'ZodObject') {
+    return typeof schema._def.shape === 'function' ? schema._def.shape() : schema.shape
+  }
+  // Raw shapes are plain objects of Zod types
+  if (!schema._def) return schema
+  return undefined
+}
+
+/**
+ * Walks a Zod schema and collects capture modes annotated in field descriptions.
+ */
+function collectModes(schema: any, path: string[], modes: Map<string, ParamCaptureMode>, depth = 0): void {
+  const shape = getShape(schema)
+  if (!shape || depth > 10) return
+
+  for (const [key, field] of Object.entries(shape)) {
+    const fieldPath = [...path, key]
+    let current: any = field
+    let mode = modeFromDescription(current?.description)
+
+    // Unwrap optional/default/effects wrappers; the description may live on any layer
+    while (current?._def) {
+      const typeName = current._def.typeName
+      if (WRAPPER_TYPES.includes(typeName)) current = current._def.innerType
+      else if (typeName === 'ZodEffects') current = current._def.schema
+      else if (typeName === 'ZodBranded') current = current._def.type
+      else break
+      mode = mode ?? modeFromDescription(current?.description)
+    }
+
+    if (mode) modes.set(fieldPath.join('.'), mode)
+
+    if (current?._def?.typeName === 'ZodObject') {
+      collectModes(current, fieldPath, modes, depth + 1)
+    } else if (current?._def?.typeName === 'ZodArray') {
+      collectModes(current._def.type, [...fieldPath, '*'], modes, depth + 1)
+    }
+  }
+}
+
+/**
+ * Converts a dotted field path into a JSONPath-style redaction path.
+ */
+function toRulePath(path: string): string {
+  return '$' + path.split('.').map(segment => segment === '*' ? '[*]' : `['${segment}']`).join('')
+}
+
+async function hashAtPath(value: any, segments: string[], hash: (value: string) => Promise<string>): Promise<any> {
+  if (value === undefined || value === null) return value
+  if (segments.length === 0) {
+    return hash(typeof value === 'string' ? value : JSON.stringify(value))
+  }
+
+  const [segment, ...rest] = segments
+  if (segment === '*') {
+    return Array.isArray(value) ? Promise.all(value.map(item => hashAtPath(item, rest, hash))) : value
+  }
+  if (typeof value !== 'object' || Array.isArray(value) || !(segment in value)) return value
+
+  return { ...value, [segment]: await hashAtPath(value[segment], rest, hash) }
+}
+
+/**
+ * Builds the capture plan for a tool from its Zod schema, `.describe()` tags and
+ * the `paramCapture` side map. Schema rules take precedence over the tool's own
+ * redaction rules; key-name and PII redaction still apply to unannotated fields.
+ * 
+ * @param paramsSchema - The tool's Zod raw shape or object schema
+ * @param options - Side map, redaction options and privacy secret from the tool options
+ * @returns Redaction options and an argument preprocessor for each call
+ */
+export function createParamCapture(
+  paramsSchema: any,
+  options: ParamCaptureOptions & { redaction?: RedactionOptions; privacy?: { secret?: string } }
+): ParamCapture {
+  const modes = new Map<string, ParamCaptureMode>()
+  try {
+    collectModes(paramsSchema, [], modes)
+  } catch (error) {
+    console.warn('[MCP Analytics] Failed to read capture annotations from schema:', error)
+  }
+  for (const [path, mode] of Object.entries(options.paramCapture || {})) {
+    modes.set(path, mode)
+  }
+
+  const declaredKeys = Object.keys(getShape(paramsSchema) || {})
+  const hashOnlyPaths = [...modes].filter(([, mode]) => mode === 'hashOnly').map(([path]) => path.split('.'))
+
+  // capture only overrides key-name redaction; hashes are recorded verbatim after preprocessing
+  const schemaRules: RedactionRule[] = [...modes].map(([path, mode]) => ({
+    path: toRulePath(path),
+    action: mode === 'sensitive' ? 'redact' : mode === 'capture' ? 'allow' : 'keep'
+  }))
+
+  const redaction: RedactionOptions = schemaRules.length > 0
+    ? { ...options.redaction, rules: [...schemaRules, ...(options.redaction?.rules || [])] }
+    : options.redaction || {}
+
+  const secret = options.privacy?.secret
+  const hash = (value: string) => secret ? hmacSha256(secret, value) : sha256Hex(value)
+
+  const prepare = async (args: Record<string, any>): Promise<Record<string, any>> => {
+    let prepared = args
+    if (declaredKeys.length > 0) {
+      prepared = {}
+      for (const key of declaredKeys) {
+        if (key in args) prepared[key] = args[key]
+      }
+    }
+
+    for (const segments of hashOnlyPaths) {
+      try {
+        prepared = await hashAtPath(prepared, segments, hash)
+      } catch (error) {
+        console.warn('[MCP Analytics] Failed to hash parameter, redacting it:', error)
+        prepared = { ...prepared, [segments[0]]: '[REDACTED]' }
+      }
+    }
+    return prepared
+  }
+
+  return { redaction, prepare }
+}
@@ -1,139 +1,446 @@
-import { MCPEvent } from '../core/types.js'
-import { sanitizeParameters } from '../core/utils.js'
+import { EVENT_TYPES } from '../core/types.js'
+import type {
+  BaseEventFields,
+  CustomAnalyticsEvent,
+  FreeQuotaEventFields,
+  PaymentEventFields,
+  PaymentWebhookEvent,
+  PromptGetEvent,
+  ResourceReadEvent,
+  ServerInitEvent,
+  ToolCompletedEvent,
+  ToolFailedEvent,
+  ToolFreeQuotaExhaustedEvent,
+  ToolFreeQuotaUsedEvent,
+  ToolPaymentCompletedEvent,
+  ToolPaymentFailedEvent,
+  ToolPaymentRequiredEvent,
+  ToolStartedEvent,
+  ToolUsageNotBilledEvent
+} from '../core/types.js'
+import type { CallContext } from './call-context.js'
+import type { CallFailure } from './outcome.js'
 import type { UserInfo } from './register-analytics-tool.js'
 
 /**
  * Server configuration data used across all event types
  */
-type ServerConfig = {
+export type EventSource = {
   serverName: string
-  serverVersion: string
-  environment: string
+  serverVersion?: string
+  environment?: string
+}
+
+/**
+ * Per-call data attached to an event: session, trace, user and client metadata,
+ * custom fields from enrich() and the PII detectors that masked content
+ */
+export type EventContext = {
+  mcpData?: Partial<CallContext['mcpData']>
+  userInfo?: UserInfo
+  clientVersion?: { name: string; version: string } | null
+  customFields?: Record<string, unknown>
+  piiDetected?: string[]
+}
+
+/**
+ * Sanitized data of a single tool call
+ */
+export type ToolCallData = {
+  toolName: string
+  parameters?: Record<string, any>
+  result?: any
+  duration: number
+}
+
+/**
+ * Stripe data of a paid tool call - missing values are recorded as null
+ */
+export type PaymentData = Partial<PaymentEventFields>
+
+/**
+ * Builds the fields shared by every event. Custom fields are spread first so they
+ * can't override built-in fields, session and user data last as they always have been.
+ */
+function createEvent<T extends { eventType: string }>(
+  source: EventSource,
+  fields: T,
+  context: EventContext = {}
+): T & BaseEventFields {
+  return {
+    ...context.customFields,
+    ...fields,
+    serverName: source.serverName,
+    timestamp: Date.now(),
+    serverVersion: source.serverVersion,
+    environment: source.environment,
+    piiDetected: context.piiDetected,
+    clientVersion: context.clientVersion,
+    ...context.mcpData,
+    ...context.userInfo
+  }
+}
+
+/**
+ * Normalizes payment data so every payment field is present, using null for unknown values.
+ */
+function paymentFields(payment: PaymentData): PaymentEventFields {
+  return {
+    customerId: payment.customerId ?? null,
+    paymentType: payment.paymentType ?? null,
+    priceId: payment.priceId ?? null,
+    paymentStatus: payment.paymentStatus ?? null,
+    paymentAmount: payment.paymentAmount ?? null,
+    paymentCurrency: payment.paymentCurrency ?? null,
+    paymentDate: payment.paymentDate ?? null,
+    paymentSessionId: payment.paymentSessionId ?? null,
+    subscriptionId: payment.subscriptionId ?? null
+  }
 }
 
 /**
  * Creates a tool started event for tracking when tool execution begins.
- * Parameters are automatically sanitized to remove sensitive data.
- * 
- * @param serverConfig - Server identification and environment info
+ *
+ * @param source - Server identification and environment info
  * @param toolName - Name of the tool being executed
- * @param parameters - Input parameters provided to the tool
- * @param sessionId - Optional session identifier for grouping events
- * @param userInfo - Optional user information from OAuth provider
- * @param clientVersion - Optional MCP client version information
- * @returns MCPEvent for tool execution start
+ * @param parameters - Sanitized input parameters provided to the tool
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for tool execution start
  */
 export function createToolStartedEvent(
-  serverConfig: ServerConfig,
+  source: EventSource,
   toolName: string,
   parameters: Record<string, any>,
-  sessionId?: string | null,
-  userInfo?: UserInfo,
-  clientVersion?: { name: string; version: string } | null
-): MCPEvent {
-  return {
-    eventType: 'mcp.tool.started',
-    timestamp: Date.now(),
-    ...serverConfig,
+  context?: EventContext
+): ToolStartedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_STARTED,
     toolName,
-    parameters: sanitizeParameters(parameters),
-    sessionId,
-    clientVersion,
-    ...userInfo
-  }
+    parameters
+  }, context)
 }
 
 /**
  * Creates a tool completed event for tracking successful tool execution.
- * 
- * @param serverConfig - Server identification and environment info
- * @param toolName - Name of the tool that completed successfully
- * @param duration - Execution time in milliseconds
- * @param sessionId - Optional session identifier for grouping events
- * @param userInfo - Optional user information from OAuth provider
- * @param clientVersion - Optional MCP client version information
- * @returns MCPEvent for successful tool completion
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and result, and duration in milliseconds
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for successful tool completion
  */
 export function createToolCompletedEvent(
-  serverConfig: ServerConfig,
-  toolName: string,
-  duration: number,
-  sessionId?: string | null,
-  userInfo?: UserInfo,
-  clientVersion?: { name: string; version: string } | null
-): MCPEvent {
-  return {
-    eventType: 'mcp.tool.completed',
-    timestamp: Date.now(),
-    ...serverConfig,
-    toolName,
-    duration,
+  source: EventSource,
+  call: ToolCallData,
+  context?: EventContext
+): ToolCompletedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_COMPLETED,
+    ...call,
     success: true,
-    sessionId,
-    clientVersion,
-    ...userInfo
-  }
+    outcome: 'success'
+  }, context)
 }
 
 /**
- * Creates a tool failed event for tracking tool execution errors.
- * Captures error type and message for debugging purposes.
- * 
- * @param serverConfig - Server identification and environment info
- * @param toolName - Name of the tool that failed
- * @param duration - Execution time before failure in milliseconds
- * @param error - The error that caused the tool to fail
- * @param sessionId - Optional session identifier for grouping events
- * @param userInfo - Optional user information from OAuth provider
- * @param clientVersion - Optional MCP client version information
- * @returns MCPEvent for failed tool execution
+ * Creates a tool failed event for tracking thrown errors and results with `isError: true`.
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and result, and duration in milliseconds
+ * @param failure - Error type, message and outcome (see describeException / describeToolError)
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for failed tool execution
  */
 export function createToolFailedEvent(
-  serverConfig: ServerConfig,
+  source: EventSource,
+  call: ToolCallData,
+  failure: CallFailure,
+  context?: EventContext
+): ToolFailedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_FAILED,
+    ...call,
+    success: false,
+    ...failure
+  }, context)
+}
+
+/**
+ * Creates a payment required event for a paid tool called by a customer who hasn't paid.
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and duration in milliseconds
+ * @param payment - Customer, price and payment type of the call
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for a paid tool call that requires payment
+ */
+export function createToolPaymentRequiredEvent(
+  source: EventSource,
+  call: ToolCallData,
+  payment: PaymentData,
+  context?: EventContext
+): ToolPaymentRequiredEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_PAYMENT_REQUIRED,
+    ...call,
+    success: false,
+    outcome: 'payment_required',
+    ...paymentFields({ ...payment, paymentStatus: 'required' })
+  }, context)
+}
+
+/**
+ * Creates a payment completed event for a successful paid tool call.
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and result, and duration in milliseconds
+ * @param payment - Customer, price and Stripe checkout session data, and the metered quantity of usage-based tools
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for a successful paid tool call
+ */
+export function createToolPaymentCompletedEvent(
+  source: EventSource,
+  call: ToolCallData,
+  payment: PaymentData & { billedQuantity?: number },
+  context?: EventContext
+): ToolPaymentCompletedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_PAYMENT_COMPLETED,
+    ...call,
+    success: true,
+    outcome: 'success',
+    ...paymentFields(payment),
+    billedQuantity: payment.billedQuantity
+  }, context)
+}
+
+/**
+ * Creates a payment failed event for a paid tool call that threw or returned `isError: true`.
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and result, and duration in milliseconds
+ * @param failure - Error type, message and outcome
+ * @param payment - Customer, price and Stripe checkout session data, if known
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for a failed paid tool call
+ */
+export function createToolPaymentFailedEvent(
+  source: EventSource,
+  call: ToolCallData,
+  failure: CallFailure,
+  payment: PaymentData,
+  context?: EventContext
+): ToolPaymentFailedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_PAYMENT_FAILED,
+    ...call,
+    success: false,
+    ...failure,
+    ...paymentFields(payment)
+  }, context)
+}
+
+/**
+ * Creates a free quota used event for an unpaid paid-tool call that ran on the free quota.
+ * Calls that threw or returned `isError: true` are recorded with the failure details.
+ *
+ * @param source - Server identification and environment info
+ * @param call - Tool name, sanitized parameters and result, and duration in milliseconds
+ * @param quota - Free calls allowed, used and remaining in the current window
+ * @param payment - Customer, price and payment type of the call
+ * @param context - Session, user and client metadata of the call
+ * @param failure - Error details if the call failed
+ * @returns Event for a call served by the free quota
+ */
+export function createToolFreeQuotaUsedEvent(
+  source: EventSource,
+  call: ToolCallData,
+  quota: FreeQuotaEventFields,
+  payment: PaymentData,
+  context?: EventContext,
+  failure?: CallFailure
+): ToolFreeQuotaUsedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_FREE_QUOTA_USED,
+    ...call,
+    success: !failure,
+    outcome: 'success',
+    ...failure,
+    ...quota,
+    ...paymentFields({ ...payment, paymentStatus: 'free_quota' })
+  }, context)
+}
+
+/**
+ * Creates a free quota exhausted event for the first call refused in a quota window.
+ *
+ * @param source - Server identification and environment info
+ * @param toolName - Name of the paid tool
+ * @param quota - Free calls allowed and used in the current window
+ * @param payment - Customer, price and payment type of the call
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for an exhausted free quota
+ */
+export function createToolFreeQuotaExhaustedEvent(
+  source: EventSource,
   toolName: string,
-  duration: number,
-  error: Error,
-  sessionId?: string | null,
-  userInfo?: UserInfo,
-  clientVersion?: { name: string; version: string } | null
-): MCPEvent {
-  return {
-    eventType: 'mcp.tool.failed',
-    timestamp: Date.now(),
-    ...serverConfig,
+  quota: FreeQuotaEventFields,
+  payment: PaymentData,
+  context?: EventContext
+): ToolFreeQuotaExhaustedEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_FREE_QUOTA_EXHAUSTED,
     toolName,
-    duration,
-    success: false,
-    errorType: error.constructor.name,
-    errorMessage: error.message,
-    sessionId,
-    clientVersion,
-    ...userInfo
-  }
+    ...quota,
+    ...paymentFields({ ...payment, paymentStatus: 'required' })
+  }, context)
+}
+
+/**
+ * Creates a usage not billed event, compensating for a usage-based call whose usage
+ * was not sent to the Stripe meter.
+ *
+ * @param source - Server identification and environment info
+ * @param toolName - Name of the paid tool
+ * @param billing - Billing timing of the tool and why the usage was not billed
+ * @param payment - Customer, price and payment type of the call
+ * @param context - Session, user and client metadata of the call
+ * @returns Event for unbilled usage
+ */
+export function createToolUsageNotBilledEvent(
+  source: EventSource,
+  toolName: string,
+  billing: Pick<ToolUsageNotBilledEvent, 'billingTiming' | 'usageNotBilledReason'>,
+  payment: PaymentData,
+  context?: EventContext
+): ToolUsageNotBilledEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.TOOL_USAGE_NOT_BILLED,
+    toolName,
+    ...billing,
+    ...paymentFields({ ...payment, paymentStatus: 'not_billed' })
+  }, context)
+}
+
+/**
+ * Creates a payment event for a processed Stripe webhook.
+ *
+ * @param source - Server identification and environment info
+ * @param eventType - One of the `mcp.payment.*` event types
+ * @param webhook - Stripe event ID, the paid tool it concerns and the resulting entitlement
+ * @param payment - Customer, subscription and amount data from the Stripe object
+ * @returns Event for a processed webhook
+ */
+export function createPaymentWebhookEvent(
+  source: EventSource,
+  eventType: PaymentWebhookEvent['eventType'],
+  webhook: {
+    stripeEventId: string
+    toolName?: string
+    entitlementActive?: boolean
+  },
+  payment: PaymentData
+): PaymentWebhookEvent {
+  return createEvent(source, {
+    eventType,
+    ...webhook,
+    ...paymentFields(payment)
+  })
+}
+
+/**
+ * Creates a resource read event. Reads that threw are recorded with the failure details.
+ *
+ * @param source - Server identification and environment info
+ * @param read - Resource name and URI, sanitized template variables and contents, and duration
+ * @param context - Session, user and client metadata of the call
+ * @param failure - Error details if the read threw
+ * @returns Event for a resource read
+ */
+export function createResourceReadEvent(
+  source: EventSource,
+  read: {
+    resourceName: string
+    resourceUri: string | null
+    parameters?: Record<string, any>
+    result?: any
+    duration: number
+  },
+  context?: EventContext,
+  failure?: CallFailure
+): ResourceReadEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.RESOURCE_READ,
+    ...read,
+    success: !failure,
+    outcome: 'success',
+    ...failure
+  }, context)
+}
+
+/**
+ * Creates a prompt get event. Calls that threw are recorded with the failure details.
+ *
+ * @param source - Server identification and environment info
+ * @param get - Prompt name, sanitized arguments and result, and duration
+ * @param context - Session, user and client metadata of the call
+ * @param failure - Error details if the prompt callback threw
+ * @returns Event for a prompt get
+ */
+export function createPromptGetEvent(
+  source: EventSource,
+  get: {
+    promptName: string
+    parameters?: Record<string, any>
+    result?: any
+    duration: number
+  },
+  context?: EventContext,
+  failure?: CallFailure
+): PromptGetEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.PROMPT_GET,
+    ...get,
+    success: !failure,
+    outcome: 'success',
+    ...failure
+  }, context)
 }
 
 /**
  * Creates a server initialization event for tracking when MCP servers start up.
  * Used for monitoring server deployment and restart events.
- * 
- * @param serverConfig - Server identification and environment info
- * @param sessionId - Optional session identifier
- * @param userInfo - Optional user information from OAuth provider
- * @param clientVersion - Optional MCP client version information
- * @returns MCPEvent for server initialization
+ *
+ * @param source - Server identification and environment info
+ * @param context - Session, user and client metadata
+ * @returns Event for server initialization
  */
 export function createServerInitEvent(
-  serverConfig: ServerConfig,
-  sessionId?: string | null,
-  userInfo?: UserInfo,
-  clientVersion?: { name: string; version: string } | null
-): MCPEvent {
-  return {
-    eventType: 'mcp.server.init',
-    timestamp: Date.now(),
-    ...serverConfig,
-    sessionId,
-    clientVersion,
-    ...userInfo
-  }
-}
\ No newline at end of file
+  source: EventSource,
+  context?: EventContext
+): ServerInitEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.SERVER_INIT
+  }, context)
+}
+
+/**
+ * Creates a custom business event (e.g. "report_exported").
+ *
+ * @param source - Server identification and environment info
+ * @param eventName - Name of the business event
+ * @param properties - JSON-serializable event properties
+ * @param context - Session, user and client metadata
+ * @returns Custom event
+ */
+export function createCustomEvent(
+  source: EventSource,
+  eventName: string,
+  properties: Record<string, unknown>,
+  context?: EventContext
+): CustomAnalyticsEvent {
+  return createEvent(source, {
+    eventType: EVENT_TYPES.CUSTOM,
+    eventName,
+    properties
+  }, context)
+}
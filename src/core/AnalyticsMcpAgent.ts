@@ -1,10 +1,35 @@
 import { McpAgent } from 'agents/mcp'
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { GetPromptResult, ReadResourceResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { ResourceMetadata } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { registerAnalyticsTool } from '../analytics/register-analytics-tool.js'
+import { registerAnalyticsResource } from '../analytics/register-analytics-resource.js'
+import { registerAnalyticsPrompt } from '../analytics/register-analytics-prompt.js'
 import type { AnalyticsToolOptions } from '../analytics/register-analytics-tool.js'
 import { AgentUtils } from './shared-utils.js' 
+import { AnalyticsClient } from './client.js'
+import { DurableObjectPersistenceAdapter } from './persistence.js'
+import { assertJsonSerializable } from './utils.js'
+import { ValidationError } from './errors.js'
+import type { ConsentLevel } from './types.js'
+import { pseudonymizeUserInfo } from './pseudonymize.js'
+import type { UserPrivacyOptions } from './pseudonymize.js'
+import { CONSENT_LEVELS, KVConsentStore, normalizeConsent, resolveConsent } from '../analytics/consent.js'
+import type { ConsentStore } from '../analytics/consent.js'
+import { queueCallEvent } from '../analytics/call-context.js'
+import { createCustomEvent } from '../analytics/translator.js'
+import type { SamplingOptions } from '../analytics/sampling.js'
 import { z } from "zod"
 
+/**
+ * Agent state holding the user's own tracking preference for the current session,
+ * used when there is no consent store to keep it across sessions
+ */
+export type AnalyticsConsentState = {
+  analyticsConsent?: ConsentLevel
+}
+
 /**
  * AnalyticsMcpAgent extends Cloudflare's McpAgent to provide automatic analytics tracking
  * for MCP tools with minimal configuration. Server info and user data are automatically
@@ -14,6 +39,256 @@ export abstract class AnalyticsMcpAgent<Env = unknown, State = unknown, Props ex
   // MCP server instance - name and version automatically extracted for analytics
   abstract server: McpServer
 
+  // Shared analytics client - lazily created, undefined until first use, null when disabled
+  private _analyticsClient?: AnalyticsClient | null
+
+  // Persist pending events to Durable Object storage and flush them with alarms (default: false)
+  protected persistAnalyticsEvents = false
+
+  // Privacy mode for userId/email/username on every event (default: identifiers are sent as-is)
+  protected analyticsPrivacy?: UserPrivacyOptions
+
+  // Sampling for every tool, resource and prompt on this agent; per-tool `sampling` options are merged over it
+  protected analyticsSampling?: SamplingOptions
+
+  /**
+   * Returns the analytics client shared by every tool registered on this agent,
+   * creating it on first use. Events from all tools are batched and flushed together.
+   * 
+   * @returns The shared client, or null when no analytics API key is configured
+   */
+  protected getAnalyticsClient(): AnalyticsClient | null {
+    if (this._analyticsClient === undefined) {
+      try {
+        this._analyticsClient = this.createAnalyticsClient()
+      } catch (error) {
+        console.warn('[MCP Analytics] Client initialization failed, analytics disabled:', error)
+        this._analyticsClient = null
+      }
+    }
+    return this._analyticsClient
+  }
+
+  /**
+   * Creates the shared analytics client. Override to customize batching or flushing
+   * for all tools on this agent.
+   * 
+   * @returns A new analytics client, or null when no analytics API key is configured
+   */
+  protected createAnalyticsClient(): AnalyticsClient | null {
+    const config = AgentUtils.getAnalyticsConfig();
+    if (!config.apiKey) return null
+
+    const { serverName, serverVersion } = AgentUtils.extractServerInfo(this.server);
+
+    return new AnalyticsClient({
+      apiKey: config.apiKey,
+      serverName,
+      serverVersion,
+      environment: config.environment,
+      enabled: config.enabled,
+      debug: config.debug,
+      persistence: this.persistAnalyticsEvents
+        ? new DurableObjectPersistenceAdapter(this.ctx.storage)
+        : undefined
+    })
+  }
+
+  /**
+   * Sends the next batch of queued events without shutting down the shared analytics client.
+   * Called automatically when the MCP connection closes.
+   */
+  protected async flushAnalyticsClient(): Promise<void> {
+    const client = this._analyticsClient
+    if (!client) return
+
+    try {
+      await client.flush()
+    } catch (error) {
+      console.warn('[MCP Analytics] Failed to flush analytics client:', error)
+    }
+  }
+
+  /**
+   * Resolves the user privacy mode for a tool, falling back to the agent-wide
+   * analyticsPrivacy setting and the MCP_ANALYTICS_HASH_SECRET env var.
+   * 
+   * @param privacy - Per-tool privacy mode, overriding the agent-wide one
+   * @returns The privacy mode with its secret, or undefined when identifiers are sent as-is
+   */
+  protected resolveUserPrivacy(privacy?: UserPrivacyOptions): UserPrivacyOptions | undefined {
+    const resolved = privacy ?? this.analyticsPrivacy
+    if (!resolved) return undefined
+
+    return {
+      ...resolved,
+      secret: resolved.secret ?? AgentUtils.getAnalyticsConfig().hashSecret
+    }
+  }
+
+  /**
+   * Consent check hook, e.g. a lookup in your own preferences store. Return undefined
+   * to fall back to the `analyticsConsent` OAuth prop.
+   * 
+   * @returns The user's consent level or a boolean, possibly async
+   */
+  protected checkAnalyticsConsent(): ConsentLevel | boolean | undefined | Promise<ConsentLevel | boolean | undefined> {
+    return undefined
+  }
+
+  /**
+   * Store of the preferences users set with the consent tool, keyed by user. Each MCP
+   * session runs in its own agent instance, so agent state alone would forget an
+   * opt-out on reconnect: defaults to the MCP_ANALYTICS_KV namespace, or none (the
+   * preference only lasts for the session) when it isn't bound.
+   */
+  protected getConsentStore(): ConsentStore | undefined {
+    // @ts-ignore
+    const namespace: KVNamespace | undefined = this.env?.MCP_ANALYTICS_KV
+    return namespace ? new KVConsentStore(namespace) : undefined
+  }
+
+  /**
+   * Resolves the current user's analytics consent. The preference set via the consent
+   * tool wins (from the consent store, then this session's state), then
+   * checkAnalyticsConsent(), then the `analyticsConsent` OAuth prop.
+   * 
+   * @returns The consent level, or undefined when the user hasn't expressed one
+   */
+  protected async getAnalyticsConsent(): Promise<ConsentLevel | undefined> {
+    const userId = AgentUtils.extractUserInfo(this.props).userId
+    const store = userId ? this.getConsentStore() : undefined
+    const saved = store ? await store.get(userId!) : null
+    if (saved) return saved
+
+    const stored = normalizeConsent((this.state as AnalyticsConsentState | undefined)?.analyticsConsent)
+    if (stored) return stored
+
+    const checked = normalizeConsent(await this.checkAnalyticsConsent())
+    if (checked) return checked
+
+    return normalizeConsent(this.props?.analyticsConsent)
+  }
+
+  /**
+   * Registers a built-in tool that lets users view or change their own tracking
+   * preference. The choice is saved per user in the consent store, and in agent state
+   * for the session; without a store or a user id it only lasts for the session.
+   * Call from init().
+   * 
+   * @param toolName - Name of the tool (default: "analytics_consent")
+   */
+  protected registerConsentTool(toolName = 'analytics_consent'): void {
+    this.server.tool(
+      toolName,
+      'View or change whether your usage of this server is recorded for analytics',
+      {
+        level: z.enum(CONSENT_LEVELS).optional().describe(
+          'full: record usage, anonymous: record usage without identity, aggregate: only anonymous counts, none: record nothing. Omit to view the current setting.'
+        )
+      },
+      async ({ level }) => {
+        let sessionOnly = false
+        if (level) {
+          this.setState({ ...(this.state as object), analyticsConsent: level } as State)
+
+          const userId = AgentUtils.extractUserInfo(this.props).userId
+          const store = userId ? this.getConsentStore() : undefined
+          sessionOnly = !store
+          if (store) {
+            try {
+              await store.put(userId!, level)
+            } catch (error) {
+              console.warn('[MCP Analytics] Failed to save consent preference, keeping it for this session only:', error)
+              sessionOnly = true
+            }
+          }
+        }
+
+        const current = await resolveConsent(() => this.getAnalyticsConsent())
+        return {
+          content: [{
+            type: 'text' as const,
+            text: level
+              ? `Analytics tracking preference updated to "${current}"${sessionOnly ? ' for this session only' : ''}.`
+              : `Analytics tracking preference is "${current}".`
+          }]
+        }
+      }
+    )
+  }
+
+  /**
+   * Sends a custom business event (e.g. "report_exported") through the shared
+   * analytics pipeline. The event is enriched with server info, session id, user
+   * info from OAuth props and the MCP client version, and batched with tool events.
+   * 
+   * @param name - Event name, recorded as `eventName` on an `mcp.custom` event
+   * @param properties - JSON-serializable event properties
+   * @throws ValidationError if the name is empty or properties aren't JSON-serializable
+   */
+  trackEvent(name: string, properties: Record<string, unknown> = {}): void {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new ValidationError('Event name must be a non-empty string', 'name')
+    }
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+      throw new ValidationError('Event properties must be a plain object', 'properties')
+    }
+    assertJsonSerializable(properties, 'properties')
+
+    const client = this.getAnalyticsClient()
+    if (!client) return
+
+    const config = AgentUtils.getAnalyticsConfig();
+    const { serverName, serverVersion } = AgentUtils.extractServerInfo(this.server);
+
+    const event = createCustomEvent(
+      { serverName, serverVersion, environment: config.environment },
+      name.trim(),
+      properties,
+      {
+        mcpData: { sessionId: AgentUtils.createSessionIdGetter(this.ctx)() },
+        clientVersion: AgentUtils.extractClientVersion(this.server)
+      }
+    )
+
+    const userInfo = AgentUtils.extractUserInfo(this.props)
+    const privacy = this.resolveUserPrivacy()
+
+    // Consent checks and hashing are async - the event is queued once both are resolved
+    resolveConsent(() => this.getAnalyticsConsent())
+      .then(async consent => {
+        const identity = privacy && consent === 'full'
+          ? await pseudonymizeUserInfo(userInfo, privacy)
+          : userInfo
+        queueCallEvent(client, { ...event, ...identity }, consent)
+      })
+      .catch(analyticsError => {
+        console.warn('[MCP Analytics] Failed to queue custom event:', analyticsError)
+      })
+  }
+
+  /**
+   * Durable Object alarm handler. Flushes persisted analytics events when
+   * persistAnalyticsEvents is enabled; subclasses overriding alarm() should call super.alarm().
+   */
+  async alarm(): Promise<void> {
+    const client = this.getAnalyticsClient()
+    if (client) {
+      await client.flush()
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+    try {
+      await super.webSocketClose(ws, code, reason, wasClean)
+    } finally {
+      // Streamable HTTP closes the socket after every request, so the client stays alive
+      // for the next one. flush() sends a single batch and never waits out a backoff.
+      await this.flushAnalyticsClient()
+    }
+  }
+
   /**
    * Registers an MCP tool with automatic analytics tracking. Tools function normally
    * even if analytics fail, ensuring reliability.
@@ -21,49 +296,122 @@ export abstract class AnalyticsMcpAgent<Env = unknown, State = unknown, Props ex
    * @param toolName - Unique identifier for the tool
    * @param toolDescription - Human-readable description of tool purpose
    * @param paramsSchema - Zod schema defining input parameters
-   * @param callback - Tool execution function with typed parameters
+   * @param callback - Tool execution function with typed parameters and the MCP request extra
    * @param options - Additional analytics configuration options (including trackResults)
    */
   analyticsTool<TSchema extends Record<string, z.ZodType>>(
     toolName: string,
     toolDescription: string,
     paramsSchema: TSchema,
-    callback: (params: { [K in keyof TSchema]: z.infer<TSchema[K]> }) => any,
-    options: Omit<AnalyticsToolOptions, 'apiKey' | 'getUserInfo' | 'getSessionId'> = {}
+    callback: (
+      params: { [K in keyof TSchema]: z.infer<TSchema[K]> },
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ) => any,
+    options: Omit<AnalyticsToolOptions, 'apiKey' | 'analyticsClient' | 'getAnalyticsClient' | 'getUserInfo' | 'getSessionId' | 'getConsent'> = {}
   ): void {
     const mcpServer = this.server
     
-  
+    // Merge user options with automatically extracted configuration
+    const updatedOptions = this.buildAnalyticsOptions(options)
+    
+    // Register the tool with analytics tracking enabled
+    registerAnalyticsTool(
+      mcpServer,
+      toolName,
+      toolDescription,
+      paramsSchema,
+      callback,
+      updatedOptions
+    )
+  }
+
+  /**
+   * Registers an MCP resource with automatic analytics tracking. Each read emits an
+   * `mcp.resource.read` event.
+   * 
+   * @param resourceName - Unique identifier for the resource
+   * @param uriOrTemplate - Fixed resource URI or a ResourceTemplate for dynamic resources
+   * @param metadata - Resource metadata such as description and mimeType
+   * @param readCallback - Resource read function; templates also receive the URI variables
+   * @param options - Additional analytics configuration options (including trackResults)
+   */
+  analyticsResource(
+    resourceName: string,
+    uriOrTemplate: string | ResourceTemplate,
+    metadata: ResourceMetadata,
+    readCallback: (...args: any[]) => ReadResourceResult | Promise<ReadResourceResult>,
+    options: Omit<AnalyticsToolOptions, 'apiKey' | 'analyticsClient' | 'getAnalyticsClient' | 'getUserInfo' | 'getSessionId' | 'getConsent'> = {}
+  ): void {
+    registerAnalyticsResource(
+      this.server,
+      resourceName,
+      uriOrTemplate,
+      metadata,
+      readCallback,
+      this.buildAnalyticsOptions(options)
+    )
+  }
+
+  /**
+   * Registers an MCP prompt with automatic analytics tracking. Each request emits an
+   * `mcp.prompt.get` event.
+   * 
+   * @param promptName - Unique identifier for the prompt
+   * @param promptDescription - Human-readable description of the prompt
+   * @param argsSchema - Zod schema defining prompt arguments
+   * @param callback - Prompt function with typed arguments and the MCP request extra
+   * @param options - Additional analytics configuration options (including trackResults)
+   */
+  analyticsPrompt<TSchema extends Record<string, z.ZodType>>(
+    promptName: string,
+    promptDescription: string,
+    argsSchema: TSchema,
+    callback: (
+      args: { [K in keyof TSchema]: z.infer<TSchema[K]> },
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ) => GetPromptResult | Promise<GetPromptResult>,
+    options: Omit<AnalyticsToolOptions, 'apiKey' | 'analyticsClient' | 'getAnalyticsClient' | 'getUserInfo' | 'getSessionId' | 'getConsent'> = {}
+  ): void {
+    registerAnalyticsPrompt(
+      this.server,
+      promptName,
+      promptDescription,
+      argsSchema,
+      callback,
+      this.buildAnalyticsOptions(options)
+    )
+  }
+
+  /**
+   * Merges user options with configuration extracted from the environment, server and OAuth props.
+   */
+  protected buildAnalyticsOptions(
+    options: Omit<AnalyticsToolOptions, 'apiKey' | 'analyticsClient' | 'getAnalyticsClient' | 'getUserInfo' | 'getSessionId' | 'getConsent'>
+  ): AnalyticsToolOptions {
     const config = AgentUtils.getAnalyticsConfig();
     const { serverName, serverVersion } = AgentUtils.extractServerInfo(this.server);
     
-
     const getUserInfo = () => AgentUtils.extractUserInfo(this.props);
     
-
     const getSessionId = AgentUtils.createSessionIdGetter(this.ctx);
     
-    // Merge user options with automatically extracted configuration
-    const updatedOptions: AnalyticsToolOptions = {
+    return {
       ...options,
       apiKey: config.apiKey,
+      // Looked up on every call so tools always use the agent's current client
+      getAnalyticsClient: this.getAnalyticsClient() ? () => this.getAnalyticsClient() : undefined,
       serverName,        
       serverVersion,     
       environment: config.environment,
       enabled: config.enabled,
       trackResults: options.trackResults !== false, // Default to true, allow override
+      privacy: this.resolveUserPrivacy(options.privacy),
+      sampling: this.analyticsSampling || options.sampling
+        ? { ...this.analyticsSampling, ...options.sampling }
+        : undefined,
       getUserInfo,
-      getSessionId
+      getSessionId,
+      getConsent: () => this.getAnalyticsConsent()
     }
-    
-    // Register the tool with analytics tracking enabled
-    registerAnalyticsTool(
-      mcpServer,
-      toolName,
-      toolDescription,
-      paramsSchema,
-      callback,
-      updatedOptions
-    )
   }
-}
\ No newline at end of file
+}
@@ -1,17 +1,40 @@
-import { IngestRequest, IngestResponse, AnalyticsConfig, MCPEvent } from './types.js'
-import { APIError } from './errors.js'
+import { IngestResponse, AnalyticsConfig, AnalyticsClientStats, MCPEvent, QueueOverflowPolicy } from './types.js'
+import { APIError, NetworkError, ValidationError } from './errors.js'
+import { RetryPolicy, resolveRetryPolicy, isRetryableError, computeBackoffDelay } from './retry.js'
+import { EventSink, HostedApiSink } from './sinks.js'
+import type { EventPersistenceAdapter } from './persistence.js'
+import { TokenBucket } from './rate-limiter.js'
+import { validateEvent } from './event-schemas.js'
 
 /**
- * Analytics client for sending MCP events to the analytics API.
+ * Analytics client for sending MCP events to the analytics API or a custom sink.
  * Handles batching, automatic flushing, and error recovery.
  */
 export class AnalyticsClient {
-  private apiKey: string
-  private apiUrl: string
+  private sink: EventSink
   private batchSize: number
+  private flushInterval: number
   private eventQueue: MCPEvent[] = []
+  private inFlight: MCPEvent[] = []
   private flushTimer?: any
   private isDestroyed = false
+  private retryPolicy: Required<RetryPolicy>
+  private onEventsDropped?: (count: number, error: Error) => void
+  private failedAttempts = 0
+  private nextRetryAt = 0
+  private retryTimer?: any
+  private flushPromise?: Promise<void>
+  private persistence?: EventPersistenceAdapter
+  private restorePromise?: Promise<void>
+  private persistPromise: Promise<void> = Promise.resolve()
+  private rateLimiter?: TokenBucket
+  private maxQueueSize: number
+  private overflowPolicy: QueueOverflowPolicy
+  private stats = { enqueued: 0, sent: 0, dropped: 0, rejected: 0, skipped: 0, failedBatches: 0 }
+  private onValidationError?: (event: MCPEvent, error: string) => void
+  private deadLetterSink?: EventSink
+  private debug: boolean
+  private validateEvents: boolean
 
   /**
    * Creates a new analytics client with automatic batching and flushing.
@@ -19,123 +42,383 @@ export class AnalyticsClient {
    * @param config - Analytics configuration including API key and batching options
    */
   constructor(config: AnalyticsConfig) {
-    this.apiKey = config.apiKey
-    this.apiUrl = (config.apiUrl || 'https://v1.mcpanalytics.dev').replace(/\/$/, '')
+    this.sink = config.sink || new HostedApiSink({ apiKey: config.apiKey, apiUrl: config.apiUrl })
     this.batchSize = Math.min(config.batchSize || 20, 25)
+    this.retryPolicy = resolveRetryPolicy(config.retry)
+    this.onEventsDropped = config.onEventsDropped
+    this.flushInterval = config.flushInterval ?? 30000
+    this.persistence = config.persistence
+    this.rateLimiter = config.rateLimit ? new TokenBucket(config.rateLimit) : undefined
+    this.maxQueueSize = Math.max(1, config.maxQueueSize ?? 1000)
+    this.overflowPolicy = config.overflowPolicy ?? 'drop-oldest'
+    this.onValidationError = config.onValidationError
+    this.deadLetterSink = config.deadLetterSink
+    this.debug = config.debug === true
+    this.validateEvents = config.validateEvents ?? isDevelopment()
+
+    // Replay events persisted by a previous instance
+    if (this.persistence) {
+      this.restorePromise = this.restore()
+    }
     
-    // Set up automatic flushing unless explicitly disabled
-    if (config.flushInterval !== 0) {
+    // Set up automatic flushing unless explicitly disabled or scheduled by the persistence adapter
+    if (this.flushInterval !== 0 && !this.persistence?.scheduleFlush) {
       this.flushTimer = setInterval(() => {
         if (this.eventQueue.length > 0 && !this.isDestroyed) {
           this.flush()
         }
-      }, config.flushInterval || 30000)
+      }, this.flushInterval)
     }
   }
 
   /**
-   * Sends a batch of events to the analytics API.
+   * Sends a batch of events to the configured sink.
    * 
    * @param events - Array of MCP events to send (max 25 events)
-   * @returns Promise resolving to the API response
+   * @returns Promise resolving to the API response (custom sinks may return nothing)
    * @throws APIError if the request fails or validation errors occur
    */
-  async sendEvents(events: MCPEvent[]): Promise<IngestResponse> {
+  async sendEvents(events: MCPEvent[]): Promise<IngestResponse | void> {
     if (this.isDestroyed) {
       throw new APIError('Client has been destroyed')
     }
-    if (!this.apiKey) {
-      throw new APIError('Analytics API key not configured')
-    }
-    if (events.length === 0) {
-      throw new APIError('No events to send')
-    }
-    if (events.length > 25) {
-      throw new APIError(`Too many events: ${events.length} (max: 25)`)
-    }
-
-    const request: IngestRequest = { events }
-
-    try {
-      const response = await fetch(`${this.apiUrl}/ingest`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': this.apiKey,
-        },
-        body: JSON.stringify(request),
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        let errorData
-        try {
-          errorData = JSON.parse(errorText)
-        } catch {
-          errorData = { error: { message: errorText } }
-        }
-        
-        throw new APIError(
-          errorData?.error?.message || `HTTP ${response.status}: ${response.statusText}`,
-          response.status
-        )
-      }
-
-      const result = await response.json()
-      return result as IngestResponse
-    } catch (error) {
-      if (error instanceof APIError) throw error
-      throw new APIError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
+    return this.postEvents(events)
   }
 
   /**
    * Adds an event to the queue for batched sending.
-   * Automatically flushes when batch size is reached.
+   * Automatically flushes when batch size is reached. Events over the configured
+   * rate limit, or pushed out of a full queue by the overflow policy, are dropped
+   * and reported via onEventsDropped.
    * 
    * @param event - MCP event to queue for sending
+   * @throws ValidationError if event validation is enabled and the event doesn't match its schema
    */
   queueEvent(event: MCPEvent): void {
     if (this.isDestroyed) return
+    if (this.validateEvents) {
+      const issue = validateEvent(event)
+      if (issue) {
+        throw new ValidationError(`Invalid ${event?.eventType || 'unknown'} event - ${issue}`)
+      }
+    }
+    if (this.rateLimiter && !this.rateLimiter.tryRemove()) {
+      this.reportDropped(1, new APIError('Client rate limit exceeded'))
+      return
+    }
+    this.stats.enqueued++
     this.eventQueue.push(event)
+    this.enforceQueueLimit()
+    this.persistQueue()
     
     // Flush when batch size is reached
     if (this.eventQueue.length >= this.batchSize) {
       this.flush()
+    } else if (this.eventQueue.length === 1) {
+      this.scheduleNextFlush(this.flushInterval)
     }
   }
 
   /**
-   * Immediately sends all queued events to the analytics API.
-   * Called automatically when batch size is reached or on timer.
+   * Immediately sends the next batch of queued events to the analytics API.
+   * Called automatically when batch size is reached or on timer. Failed batches
+   * are re-queued and retried with backoff until the retry policy is exhausted.
    */
   async flush(): Promise<void> {
+    if (this.restorePromise) {
+      await this.restorePromise
+    }
     if (this.isDestroyed || this.eventQueue.length === 0) return
-    
-    // Extract events to send and remove from queue
-    const eventsToSend = this.eventQueue.splice(0, this.batchSize)
-    
-    try {
-      await this.sendEvents(eventsToSend)
-    } catch (error) {
-      console.warn('[MCP Analytics] Flush failed:', error instanceof Error ? error.message : 'Unknown error')
+
+    // Backing off after a failure - the retry timer will flush when it's time
+    if (Date.now() < this.nextRetryAt) return
+
+    // Only one batch in flight at a time so re-queued events keep their order
+    if (this.flushPromise) return this.flushPromise
+
+    this.flushPromise = (async () => {
+      const retryDelay = await this.sendNextBatch()
+      if (retryDelay !== undefined) {
+        this.scheduleRetry(retryDelay)
+      } else if (this.eventQueue.length > 0) {
+        // More events are waiting; without an interval timer nothing else would pick them up
+        this.scheduleNextFlush(this.flushInterval)
+      }
+    })().finally(() => {
+      this.flushPromise = undefined
+    })
+    return this.flushPromise
+  }
+
+  /**
+   * Returns delivery counters for monitoring backpressure.
+   * 
+   * @returns A snapshot of the client's counters and current queue size
+   */
+  getStats(): AnalyticsClientStats {
+    return {
+      ...this.stats,
+      queueSize: this.eventQueue.length + this.inFlight.length
     }
   }
 
   /**
    * Cleanly shuts down the analytics client.
-   * Stops the flush timer and sends any remaining queued events.
+   * Stops the flush timer and sends any remaining queued events, honoring the retry policy.
    */
   async destroy(): Promise<void> {
+    if (this.isDestroyed) return
     this.isDestroyed = true
+
+    if (this.restorePromise) {
+      await this.restorePromise
+    }
     
-    // Clean up the flush timer
+    // Clean up the flush and retry timers
     if (this.flushTimer) {
       clearInterval(this.flushTimer)
       this.flushTimer = undefined
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
+
+    // Let an in-flight batch settle before draining the rest
+    if (this.flushPromise) {
+      await this.flushPromise
+    }
     
     // Send any remaining events
-    await this.flush()
+    while (this.eventQueue.length > 0) {
+      const waitUntil = this.nextRetryAt
+      if (waitUntil > Date.now()) {
+        await new Promise(resolve => setTimeout(resolve, waitUntil - Date.now()))
+      }
+      const retryDelay = await this.sendNextBatch()
+      this.nextRetryAt = retryDelay !== undefined ? Date.now() + retryDelay : 0
+    }
+
+    await this.persistPromise
+  }
+
+  /**
+   * Sends the batch at the head of the queue. On a retryable failure the batch is
+   * put back at the front of the queue; once the retry policy is exhausted (or the
+   * error is not retryable) the batch is dropped and reported via onEventsDropped.
+   * 
+   * @returns Delay in milliseconds before the next attempt, or undefined if no retry is pending
+   */
+  private async sendNextBatch(): Promise<number | undefined> {
+    const eventsToSend = this.eventQueue.splice(0, this.batchSize)
+    if (eventsToSend.length === 0) return undefined
+    this.inFlight = eventsToSend
+
+    try {
+      const response = await this.postEvents(eventsToSend)
+      this.stats.sent += eventsToSend.length
+      if (response) {
+        this.handleIngestResponse(eventsToSend, response)
+      }
+      this.failedAttempts = 0
+      this.nextRetryAt = 0
+      this.inFlight = []
+      this.persistQueue()
+      return undefined
+    } catch (error) {
+      this.inFlight = []
+      const sendError = error instanceof Error ? error : new APIError('Unknown error')
+      this.failedAttempts++
+      this.stats.failedBatches++
+
+      if (!isRetryableError(sendError) || this.failedAttempts >= this.retryPolicy.maxAttempts) {
+        console.warn(`[MCP Analytics] Flush failed after ${this.failedAttempts} attempt(s), dropping ${eventsToSend.length} events:`, sendError.message)
+        this.failedAttempts = 0
+        this.nextRetryAt = 0
+        this.persistQueue()
+        this.reportDropped(eventsToSend.length, sendError)
+        return undefined
+      }
+
+      const retryAfter = sendError instanceof APIError ? sendError.retryAfter : undefined
+      const delay = computeBackoffDelay(this.failedAttempts, this.retryPolicy, retryAfter)
+      this.eventQueue.unshift(...eventsToSend)
+      this.nextRetryAt = Date.now() + delay
+      console.warn(`[MCP Analytics] Flush failed (attempt ${this.failedAttempts}/${this.retryPolicy.maxAttempts}), retrying in ${delay}ms:`, sendError.message)
+      return delay
+    }
+  }
+
+  /**
+   * Schedules a flush once the backoff delay has elapsed.
+   */
+  private scheduleRetry(delay: number): void {
+    if (this.isDestroyed) return
+
+    // Timers don't survive hibernation, so prefer the adapter's scheduler when available
+    if (this.persistence?.scheduleFlush) {
+      this.scheduleNextFlush(delay)
+      return
+    }
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined
+      this.flush()
+    }, delay)
+  }
+
+  /**
+   * Asks the persistence adapter to schedule a flush. No-op when flushing is
+   * driven by the interval timer.
+   */
+  private scheduleNextFlush(delay: number): void {
+    if (this.isDestroyed || !this.persistence?.scheduleFlush) return
+    this.persistence.scheduleFlush(delay).catch(error => {
+      console.warn('[MCP Analytics] Failed to schedule flush:', error instanceof Error ? error.message : 'Unknown error')
+    })
+  }
+
+  /**
+   * Loads events persisted by a previous instance, ahead of any queued since startup.
+   */
+  private async restore(): Promise<void> {
+    try {
+      const storedEvents = await this.persistence!.load()
+      if (storedEvents.length > 0) {
+        this.eventQueue = [...storedEvents, ...this.eventQueue]
+        this.enforceQueueLimit()
+        this.scheduleNextFlush(0)
+      }
+    } catch (error) {
+      console.warn('[MCP Analytics] Failed to restore persisted events:', error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      this.restorePromise = undefined
+    }
   }
-}
\ No newline at end of file
+
+  /**
+   * Writes pending and in-flight events to the persistence adapter. Writes are
+   * serialized so the latest snapshot always wins.
+   */
+  private persistQueue(): void {
+    if (!this.persistence) return
+    const persistence = this.persistence
+
+    this.persistPromise = this.persistPromise.then(async () => {
+      // Wait for replay so a snapshot taken before restore can't overwrite stored events
+      if (this.restorePromise) {
+        await this.restorePromise
+      }
+      try {
+        await persistence.save([...this.inFlight, ...this.eventQueue])
+      } catch (error) {
+        console.warn('[MCP Analytics] Failed to persist events:', error instanceof Error ? error.message : 'Unknown error')
+      }
+    })
+  }
+
+  /**
+   * Surfaces events the ingest API skipped or rejected: counts them, reports each
+   * validation error via onValidationError, logs them in debug mode and forwards
+   * rejected events to the dead-letter sink.
+   */
+  private handleIngestResponse(events: MCPEvent[], response: IngestResponse): void {
+    this.stats.skipped += response.skipped || 0
+
+    const validationErrors = Array.isArray(response.validation_errors) ? response.validation_errors : []
+    if (validationErrors.length === 0) return
+
+    const rejected: MCPEvent[] = []
+    for (const { index, error } of validationErrors) {
+      const event = events[index]
+      if (!event) {
+        if (this.debug) {
+          console.warn(`[MCP Analytics] Ingest API reported a validation error for unknown index ${index}:`, error)
+        }
+        continue
+      }
+
+      rejected.push(event)
+      if (this.debug) {
+        console.warn(`[MCP Analytics] Event rejected by ingest API (${event.eventType}${event.toolName ? ` ${event.toolName}` : ''}):`, error)
+      }
+      if (this.onValidationError) {
+        try {
+          this.onValidationError(event, error)
+        } catch (callbackError) {
+          console.warn('[MCP Analytics] onValidationError callback failed:', callbackError)
+        }
+      }
+    }
+
+    this.stats.rejected += rejected.length
+    if (this.deadLetterSink && rejected.length > 0) {
+      this.deadLetterSink.send(rejected).catch(error => {
+        console.warn('[MCP Analytics] Failed to send rejected events to dead-letter sink:', error instanceof Error ? error.message : 'Unknown error')
+      })
+    }
+  }
+
+  /**
+   * Drops events according to the overflow policy until the queue fits maxQueueSize.
+   */
+  private enforceQueueLimit(): void {
+    let overflow = 0
+    while (this.eventQueue.length > this.maxQueueSize) {
+      let index = 0
+      if (this.overflowPolicy === 'drop-newest') {
+        index = this.eventQueue.length - 1
+      } else if (this.overflowPolicy === 'drop-non-error') {
+        // Fall back to the oldest event once only failures are left
+        index = Math.max(0, this.eventQueue.findIndex(event => event.success !== false))
+      }
+      this.eventQueue.splice(index, 1)
+      overflow++
+    }
+
+    if (overflow > 0) {
+      this.reportDropped(overflow, new APIError(`Analytics queue full (max: ${this.maxQueueSize})`))
+    }
+  }
+
+  private reportDropped(count: number, error: Error): void {
+    this.stats.dropped += count
+    if (!this.onEventsDropped) return
+    try {
+      this.onEventsDropped(count, error)
+    } catch (callbackError) {
+      console.warn('[MCP Analytics] onEventsDropped callback failed:', callbackError)
+    }
+  }
+
+  /**
+   * Delivers a batch of events through the sink.
+   */
+  private async postEvents(events: MCPEvent[]): Promise<IngestResponse | void> {
+    if (events.length === 0) {
+      throw new APIError('No events to send')
+    }
+    if (events.length > 25) {
+      throw new APIError(`Too many events: ${events.length} (max: 25)`)
+    }
+
+    try {
+      return await this.sink.send(events)
+    } catch (error) {
+      if (error instanceof APIError) throw error
+      throw new NetworkError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+}
+
+/**
+ * Events are validated by default in development and tests, where a malformed
+ * event is a bug worth surfacing, and skipped in production to save the cost.
+ */
+function isDevelopment(): boolean {
+  const env = typeof process !== 'undefined' ? process.env?.NODE_ENV : undefined
+  return env === 'development' || env === 'test'
+}
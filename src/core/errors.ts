@@ -1,6 +1,20 @@
 export class APIError extends Error {
-  constructor(message: string, public statusCode?: number) {
+  constructor(message: string, public statusCode?: number, public retryAfter?: number) {
     super(message)
     this.name = 'APIError'
   }
-}
\ No newline at end of file
+}
+
+export class NetworkError extends APIError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+export class ValidationError extends Error {
+  constructor(message: string, public path?: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
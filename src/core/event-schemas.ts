@@ -0,0 +1,247 @@
+import { z } from 'zod'
+import { EVENT_TYPES } from './types.js'
+import type { MCPEvent } from './types.js'
+
+/**
+ * Runtime schemas for every event type the SDK emits. Used by AnalyticsClient to
+ * validate events before queueing them (in development and tests), and exported
+ * so consumers can validate events they receive from a sink or webhook.
+ *
+ * Schemas are strict about the fields each event type relies on and permissive
+ * about everything else - custom metadata fields pass through untouched, and
+ * fields removed by consent downgrades (parameters, identity, session data) are optional.
+ */
+
+const callOutcomeSchema = z.enum([
+  'success',
+  'tool_error',
+  'exception',
+  'validation_error',
+  'cancelled',
+  'payment_required'
+])
+
+const consentLevelSchema = z.enum(['full', 'anonymous', 'aggregate', 'none'])
+
+const clientVersionSchema = z.object({
+  name: z.string(),
+  version: z.string()
+}).nullable()
+
+// Fields shared by every event
+const baseEventShape = {
+  serverName: z.string().min(1),
+  timestamp: z.number().int().nonnegative(),
+  serverVersion: z.string().optional(),
+  environment: z.string().optional(),
+
+  sessionId: z.string().nullish(),
+  requestId: z.union([z.string(), z.number()]).nullish(), // MCP request ids are strings or numbers
+  traceId: z.string().regex(/^[0-9a-f]{32}$/).optional(),
+  spanId: z.string().regex(/^[0-9a-f]{16}$/).optional(),
+  parentSpanId: z.string().regex(/^[0-9a-f]{16}$/).nullish(),
+
+  userId: z.string().optional(),
+  email: z.string().optional(),
+  username: z.string().optional(),
+  clientVersion: clientVersionSchema.optional(),
+
+  tags: z.array(z.string()).optional(),
+  category: z.string().optional(),
+  owner: z.string().optional(),
+  toolVersion: z.string().optional(),
+
+  piiDetected: z.array(z.string()).optional(),
+  consent: consentLevelSchema.optional(),
+  sampleRate: z.number().gt(0).lte(1).optional()
+}
+
+// Fields shared by tool, resource and prompt calls
+const callEventShape = {
+  ...baseEventShape,
+  parameters: z.record(z.any()).optional(),
+  result: z.any().optional(),
+  duration: z.number().nonnegative().optional(),
+  success: z.boolean(),
+  outcome: callOutcomeSchema.optional(),
+  errorType: z.string().optional(),
+  errorMessage: z.string().optional()
+}
+
+const toolCallShape = {
+  ...callEventShape,
+  toolName: z.string().min(1)
+}
+
+// Payment context attached to every paid tool event
+const paymentShape = {
+  customerId: z.string().nullish(),
+  paymentAmount: z.number().nullish(),
+  paymentCurrency: z.string().nullish(),
+  paymentDate: z.string().nullish(),
+  paymentSessionId: z.string().nullish(),
+  paymentType: z.string().nullish(),
+  priceId: z.string().nullish(),
+  paymentStatus: z.string().nullish(),
+  subscriptionId: z.string().nullish()
+}
+
+export const toolStartedEventSchema = z.object({
+  ...baseEventShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_STARTED),
+  toolName: z.string().min(1),
+  parameters: z.record(z.any()).optional()
+}).passthrough()
+
+export const toolCompletedEventSchema = z.object({
+  ...toolCallShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_COMPLETED)
+}).passthrough()
+
+export const toolFailedEventSchema = z.object({
+  ...toolCallShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_FAILED)
+}).passthrough()
+
+export const toolPaymentRequiredEventSchema = z.object({
+  ...toolCallShape,
+  ...paymentShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_PAYMENT_REQUIRED)
+}).passthrough()
+
+export const toolPaymentCompletedEventSchema = z.object({
+  ...toolCallShape,
+  ...paymentShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_PAYMENT_COMPLETED),
+  billedQuantity: z.number().nonnegative().optional()
+}).passthrough()
+
+export const toolPaymentFailedEventSchema = z.object({
+  ...toolCallShape,
+  ...paymentShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_PAYMENT_FAILED)
+}).passthrough()
+
+// Free tier usage attached to free quota events
+const freeQuotaShape = {
+  freeQuotaLimit: z.number().int().nonnegative(),
+  freeQuotaUsed: z.number().int().nonnegative(),
+  freeQuotaRemaining: z.number().int().nonnegative(),
+  freeQuotaPeriod: z.enum(['day', 'month', 'lifetime']),
+  freeQuotaResetsAt: z.string().nullable()
+}
+
+export const toolFreeQuotaUsedEventSchema = z.object({
+  ...toolCallShape,
+  ...paymentShape,
+  ...freeQuotaShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_FREE_QUOTA_USED)
+}).passthrough()
+
+export const toolFreeQuotaExhaustedEventSchema = z.object({
+  ...baseEventShape,
+  ...paymentShape,
+  ...freeQuotaShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_FREE_QUOTA_EXHAUSTED),
+  toolName: z.string().min(1)
+}).passthrough()
+
+export const toolUsageNotBilledEventSchema = z.object({
+  ...baseEventShape,
+  ...paymentShape,
+  eventType: z.literal(EVENT_TYPES.TOOL_USAGE_NOT_BILLED),
+  toolName: z.string().min(1),
+  billingTiming: z.enum(['before', 'afterSuccess', 'always']),
+  usageNotBilledReason: z.enum(['tool_failed', 'meter_value_failed', 'billing_failed'])
+}).passthrough()
+
+const paymentWebhookShape = {
+  ...baseEventShape,
+  ...paymentShape,
+  stripeEventId: z.string().min(1),
+  toolName: z.string().optional(),
+  entitlementActive: z.boolean().optional()
+}
+
+export const paymentCheckoutCompletedEventSchema = z.object({
+  ...paymentWebhookShape,
+  eventType: z.literal(EVENT_TYPES.PAYMENT_CHECKOUT_COMPLETED)
+}).passthrough()
+
+export const paymentSubscriptionUpdatedEventSchema = z.object({
+  ...paymentWebhookShape,
+  eventType: z.literal(EVENT_TYPES.PAYMENT_SUBSCRIPTION_UPDATED)
+}).passthrough()
+
+export const paymentSubscriptionDeletedEventSchema = z.object({
+  ...paymentWebhookShape,
+  eventType: z.literal(EVENT_TYPES.PAYMENT_SUBSCRIPTION_DELETED)
+}).passthrough()
+
+export const paymentInvoicePaidEventSchema = z.object({
+  ...paymentWebhookShape,
+  eventType: z.literal(EVENT_TYPES.PAYMENT_INVOICE_PAID)
+}).passthrough()
+
+export const resourceReadEventSchema = z.object({
+  ...callEventShape,
+  eventType: z.literal(EVENT_TYPES.RESOURCE_READ),
+  resourceName: z.string().min(1),
+  resourceUri: z.string().nullish()
+}).passthrough()
+
+export const promptGetEventSchema = z.object({
+  ...callEventShape,
+  eventType: z.literal(EVENT_TYPES.PROMPT_GET),
+  promptName: z.string().min(1)
+}).passthrough()
+
+export const serverInitEventSchema = z.object({
+  ...baseEventShape,
+  eventType: z.literal(EVENT_TYPES.SERVER_INIT)
+}).passthrough()
+
+export const customEventSchema = z.object({
+  ...baseEventShape,
+  eventType: z.literal(EVENT_TYPES.CUSTOM),
+  eventName: z.string().min(1),
+  properties: z.record(z.unknown()).optional()
+}).passthrough()
+
+/**
+ * Any event emitted by the SDK, discriminated on `eventType`
+ */
+export const mcpEventSchema = z.discriminatedUnion('eventType', [
+  toolStartedEventSchema,
+  toolCompletedEventSchema,
+  toolFailedEventSchema,
+  toolPaymentRequiredEventSchema,
+  toolPaymentCompletedEventSchema,
+  toolPaymentFailedEventSchema,
+  toolFreeQuotaUsedEventSchema,
+  toolFreeQuotaExhaustedEventSchema,
+  toolUsageNotBilledEventSchema,
+  paymentCheckoutCompletedEventSchema,
+  paymentSubscriptionUpdatedEventSchema,
+  paymentSubscriptionDeletedEventSchema,
+  paymentInvoicePaidEventSchema,
+  resourceReadEventSchema,
+  promptGetEventSchema,
+  serverInitEventSchema,
+  customEventSchema
+])
+
+/**
+ * Validates an event against the schema for its event type.
+ *
+ * @param event - Event to validate
+ * @returns null if the event is valid, otherwise a message describing the first issue
+ */
+export function validateEvent(event: MCPEvent): string | null {
+  const parsed = mcpEventSchema.safeParse(event)
+  if (parsed.success) return null
+
+  const issue = parsed.error.issues[0]
+  const path = issue.path.length > 0 ? issue.path.join('.') : 'event'
+  return `${path}: ${issue.message}`
+}
@@ -0,0 +1,124 @@
+import type { MCPEvent } from './types.js'
+
+/**
+ * Persists pending analytics events so they survive isolate restarts and
+ * Durable Object eviction. Implementations may optionally schedule flushes
+ * (e.g. with a Durable Object alarm) instead of relying on in-memory timers.
+ */
+export interface EventPersistenceAdapter {
+  /** Loads events that were pending when the previous instance stopped */
+  load(): Promise<MCPEvent[]>
+  /** Replaces the persisted queue with the given events */
+  save(events: MCPEvent[]): Promise<void>
+  /** Requests a flush after the given delay in milliseconds (replaces setInterval when provided) */
+  scheduleFlush?(delay: number): Promise<void>
+}
+
+const QUEUE_KEY_PREFIX = 'mcp-analytics:queue:'
+const CHUNK_COUNT_KEY = 'mcp-analytics:queue-chunks'
+
+// Durable Object storage values are limited to 128 KiB, leave headroom for encoding overhead
+const MAX_CHUNK_BYTES = 100 * 1024
+
+const encoder = new TextEncoder()
+
+/**
+ * Persistence adapter backed by Durable Object storage. Events are stored in
+ * size-bounded chunks and flushes are scheduled with Durable Object alarms, so
+ * hibernating agents still deliver their analytics.
+ */
+export class DurableObjectPersistenceAdapter implements EventPersistenceAdapter {
+  private chunkCount?: number
+
+  /**
+   * @param storage - Durable Object storage, typically `this.ctx.storage`
+   */
+  constructor(private storage: DurableObjectStorage) {}
+
+  async load(): Promise<MCPEvent[]> {
+    const chunkCount = (await this.storage.get<number>(CHUNK_COUNT_KEY)) || 0
+    this.chunkCount = chunkCount
+    if (chunkCount === 0) return []
+
+    const keys = Array.from({ length: chunkCount }, (_, index) => `${QUEUE_KEY_PREFIX}${index}`)
+    const chunks = await this.storage.get<MCPEvent[]>(keys)
+
+    const events: MCPEvent[] = []
+    for (const key of keys) {
+      events.push(...(chunks.get(key) || []))
+    }
+    return events
+  }
+
+  async save(events: MCPEvent[]): Promise<void> {
+    const { chunks, oversized } = chunkEvents(events)
+    if (oversized > 0) {
+      // Still queued in memory and sent while the Durable Object stays alive
+      console.warn(`[MCP Analytics] ${oversized} event(s) exceed the ${MAX_CHUNK_BYTES} byte storage limit and were not persisted`)
+    }
+    const previousCount = this.chunkCount ?? ((await this.storage.get<number>(CHUNK_COUNT_KEY)) || 0)
+
+    const entries: Record<string, unknown> = { [CHUNK_COUNT_KEY]: chunks.length }
+    chunks.forEach((chunk, index) => {
+      entries[`${QUEUE_KEY_PREFIX}${index}`] = chunk
+    })
+
+    // storage.put accepts at most 128 keys per call
+    const entryList = Object.entries(entries)
+    for (let i = 0; i < entryList.length; i += 128) {
+      await this.storage.put(Object.fromEntries(entryList.slice(i, i + 128)))
+    }
+
+    // Remove chunks left over from a longer previous queue
+    const staleKeys: string[] = []
+    for (let index = chunks.length; index < previousCount; index++) {
+      staleKeys.push(`${QUEUE_KEY_PREFIX}${index}`)
+    }
+    for (let i = 0; i < staleKeys.length; i += 128) {
+      await this.storage.delete(staleKeys.slice(i, i + 128))
+    }
+
+    this.chunkCount = chunks.length
+  }
+
+  async scheduleFlush(delay: number): Promise<void> {
+    const target = Date.now() + Math.max(0, delay)
+    const current = await this.storage.getAlarm()
+
+    // Keep an earlier alarm if one is already set
+    if (current === null || current > target) {
+      await this.storage.setAlarm(target)
+    }
+  }
+}
+
+/**
+ * Splits events into chunks whose UTF-8 encoded size stays under the storage value limit.
+ * Events too large to fit in a chunk on their own are left out and counted as oversized.
+ */
+function chunkEvents(events: MCPEvent[]): { chunks: MCPEvent[][]; oversized: number } {
+  const chunks: MCPEvent[][] = []
+  let current: MCPEvent[] = []
+  let currentBytes = 0
+  let oversized = 0
+
+  for (const event of events) {
+    const eventBytes = encoder.encode(JSON.stringify(event)).byteLength
+    if (eventBytes > MAX_CHUNK_BYTES) {
+      oversized++
+      continue
+    }
+    if (current.length > 0 && currentBytes + eventBytes > MAX_CHUNK_BYTES) {
+      chunks.push(current)
+      current = []
+      currentBytes = 0
+    }
+    current.push(event)
+    currentBytes += eventBytes
+  }
+
+  if (current.length > 0) {
+    chunks.push(current)
+  }
+  return { chunks, oversized }
+}
@@ -0,0 +1,162 @@
+/**
+ * Names of the built-in PII detectors
+ */
+export type PiiDetectorName = 'email' | 'credit_card' | 'iban' | 'phone' | 'bearer_token' | 'aws_key'
+
+/**
+ * Content-based PII detector. Matches of `pattern` are masked unless `validate`
+ * rejects them, e.g. card-like digit runs that fail the Luhn check.
+ */
+export type PiiDetector = {
+  name: string
+  pattern: RegExp
+  validate?: (match: string) => boolean
+  replacement?: string // Default: "[REDACTED:<name>]"
+}
+
+/**
+ * Configuration for content-based PII scanning
+ */
+export type PiiScanOptions = {
+  // Built-in detector names and/or custom detectors, applied in order (default: all built-ins)
+  detectors?: Array<PiiDetectorName | PiiDetector>
+}
+
+/**
+ * Validates a card number with the Luhn checksum.
+ * 
+ * @param value - Card number, separators are ignored
+ * @returns True when the digits form a valid 13-19 digit card number
+ */
+export function luhnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Validates an IBAN with the ISO 13616 mod-97 checksum.
+ * 
+ * @param value - IBAN, spaces are ignored
+ * @returns True when the checksum is valid
+ */
+export function ibanCheck(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase()
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55)
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+// Ordered so that specific formats are masked before the broader phone pattern runs
+export const BUILT_IN_PII_DETECTORS: Record<PiiDetectorName, PiiDetector> = {
+  bearer_token: {
+    name: 'bearer_token',
+    pattern: /\b[Bb]earer\s+[A-Za-z0-9\-._~+/]+=*|\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+  },
+  aws_key: {
+    name: 'aws_key',
+    pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanCheck
+  },
+  credit_card: {
+    name: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: luhnCheck
+  },
+  phone: {
+    name: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?|\d{1,4}[\s.-])\d{2,4}[\s.-]?\d{3,4}(?!\w)/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length
+      return digits >= 7 && digits <= 15
+    }
+  }
+}
+
+/**
+ * Masks PII found in free text and remembers which detectors fired. Create one
+ * scanner per call so the detected names describe a single event.
+ */
+export class PiiScanner {
+  private detectors: PiiDetector[]
+  private detected = new Set<string>()
+
+  constructor(options: PiiScanOptions = {}) {
+    const selected = options.detectors ?? (Object.keys(BUILT_IN_PII_DETECTORS) as PiiDetectorName[])
+
+    this.detectors = selected.flatMap(detector => {
+      const resolved = typeof detector === 'string' ? BUILT_IN_PII_DETECTORS[detector] : detector
+      if (!resolved) {
+        console.warn(`[MCP Analytics] Unknown PII detector "${detector}", ignoring`)
+        return []
+      }
+      // Replacement needs a global pattern to mask every occurrence
+      const pattern = resolved.pattern.global
+        ? resolved.pattern
+        : new RegExp(resolved.pattern.source, resolved.pattern.flags + 'g')
+      return [{ ...resolved, pattern }]
+    })
+  }
+
+  /**
+   * Replaces every detected PII match in the text.
+   * 
+   * @param text - Text to scan
+   * @returns The text with matches masked
+   */
+  mask(text: string): string {
+    let masked = text
+    for (const detector of this.detectors) {
+      masked = masked.replace(detector.pattern, match => {
+        if (detector.validate && !detector.validate(match)) return match
+        this.detected.add(detector.name)
+        return detector.replacement ?? `[REDACTED:${detector.name}]`
+      })
+    }
+    return masked
+  }
+
+  /**
+   * @returns Names of the detectors that matched, or undefined when nothing was found
+   */
+  getDetected(): string[] | undefined {
+    return this.detected.size > 0 ? [...this.detected] : undefined
+  }
+}
+
+/**
+ * Creates a scanner from the `pii` tool option.
+ * 
+ * @param options - `true` for all built-in detectors, or detailed scan options
+ * @returns A fresh scanner, or undefined when scanning is disabled
+ */
+export function createPiiScanner(options: boolean | PiiScanOptions | undefined): PiiScanner | undefined {
+  if (!options) return undefined
+  return new PiiScanner(options === true ? {} : options)
+}
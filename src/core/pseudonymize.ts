@@ -0,0 +1,106 @@
+import type { UserInfo } from './shared-utils.js'
+
+/**
+ * How an identity field is recorded: as-is, as a keyed hash, or not at all
+ */
+export type IdentityFieldMode = 'keep' | 'hash' | 'drop'
+
+/**
+ * Privacy mode for user identifiers attached to analytics events
+ */
+export type UserPrivacyOptions = {
+  userId?: IdentityFieldMode   // Default: 'hash'
+  email?: IdentityFieldMode    // Default: 'hash'
+  username?: IdentityFieldMode // Default: 'drop'
+  secret?: string              // HMAC key, defaults to the MCP_ANALYTICS_HASH_SECRET env var
+}
+
+const DEFAULT_MODES: Record<keyof UserInfo, IdentityFieldMode> = {
+  userId: 'hash',
+  email: 'hash',
+  username: 'drop'
+}
+
+const keyCache = new Map<string, Promise<CryptoKey>>()
+let missingSecretWarned = false
+
+function importKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret)
+  if (!key) {
+    key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+    keyCache.set(secret, key)
+  }
+  return key
+}
+
+/**
+ * Computes a keyed HMAC-SHA256 of a value with WebCrypto.
+ * 
+ * @param secret - HMAC key
+ * @param value - Value to hash
+ * @returns Lowercase hex digest
+ */
+export async function hmacSha256(secret: string, value: string): Promise<string> {
+  const key = await importKey(secret)
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Applies the privacy mode to user identifiers. Hashed values are stable for a
+ * given secret, so unique users can still be counted. Fails closed: when no
+ * secret is available or hashing fails, fields that should be hashed are dropped.
+ * 
+ * @param userInfo - Raw user info extracted from OAuth props
+ * @param options - Per-field modes and HMAC secret
+ * @returns User info safe to attach to analytics events
+ */
+export async function pseudonymizeUserInfo(userInfo: UserInfo, options: UserPrivacyOptions): Promise<UserInfo> {
+  const result: UserInfo = {}
+
+  for (const field of Object.keys(DEFAULT_MODES) as Array<keyof UserInfo>) {
+    const value = userInfo[field]
+    if (value === undefined || value === null) continue
+
+    const mode = options[field] ?? DEFAULT_MODES[field]
+    if (mode === 'keep') {
+      result[field] = value
+    } else if (mode === 'hash') {
+      if (!options.secret) {
+        if (!missingSecretWarned) {
+          missingSecretWarned = true
+          console.warn('[MCP Analytics] No hash secret configured (MCP_ANALYTICS_HASH_SECRET), dropping identity fields')
+        }
+        continue
+      }
+
+      // Normalize emails so the same address always maps to the same hash
+      const normalized = field === 'email' ? value.trim().toLowerCase() : value
+      try {
+        result[field] = await hmacSha256(options.secret, normalized)
+      } catch (error) {
+        console.warn(`[MCP Analytics] Failed to hash ${field}, dropping it:`, error)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Computes an unkeyed SHA-256 of a value with WebCrypto. Prefer hmacSha256 when a
+ * secret is available - plain hashes of low-entropy values can be brute-forced.
+ * 
+ * @param value - Value to hash
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
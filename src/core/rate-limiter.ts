@@ -0,0 +1,45 @@
+/**
+ * Token-bucket limit on events accepted by the client
+ */
+export interface RateLimitOptions {
+  eventsPerSecond: number; // Sustained rate at which tokens refill
+  burst?: number;          // Bucket capacity, i.e. events accepted at once (default: eventsPerSecond, min 1)
+}
+
+/**
+ * Token bucket that refills continuously. Each accepted event consumes one token.
+ */
+export class TokenBucket {
+  private capacity: number
+  private refillPerMs: number
+  private tokens: number
+  private lastRefill: number
+
+  /**
+   * @param options - Sustained rate and burst capacity
+   * @param now - Current time in milliseconds, injectable for tests
+   */
+  constructor(options: RateLimitOptions, now = Date.now()) {
+    const rate = Math.max(0, options.eventsPerSecond)
+    this.capacity = Math.max(1, options.burst ?? rate)
+    this.refillPerMs = rate / 1000
+    this.tokens = this.capacity
+    this.lastRefill = now
+  }
+
+  /**
+   * Takes a token if one is available.
+   * 
+   * @param now - Current time in milliseconds, injectable for tests
+   * @returns True when the event may proceed
+   */
+  tryRemove(now = Date.now()): boolean {
+    const elapsed = Math.max(0, now - this.lastRefill)
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs)
+    this.lastRefill = now
+
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Action applied to a parameter value matched by a redaction rule:
+ * - `redact` - replaced with "[REDACTED]"
+ * - `remove` - dropped from the event
+ * - `keep` - recorded verbatim, skipping all redaction, PII masking and truncation
+ * - `allow` - skips key-name redaction only; PII masking and truncation still apply
+ */
+export type RedactionAction = 'redact' | 'remove' | 'keep' | 'allow'
+
+/**
+ * JSONPath-style redaction rule, e.g. `$.config.apiKey`, `$.users[*].ssn` or `$..password`
+ */
+export type RedactionRule = {
+  path: string
+  action: RedactionAction
+}
+
+/**
+ * Configuration for parameter sanitization
+ */
+export type RedactionOptions = {
+  // Extra sensitive keys: strings match exactly (case-insensitive), RegExps are tested against the key
+  redactKeys?: Array<string | RegExp>
+  // Allowlist mode: only these keys are captured at any depth, everything else is redacted
+  allowKeys?: string[]
+  // Path rules take precedence over key-based redaction (first match wins)
+  rules?: RedactionRule[]
+  maxStringLength?: number  // Default: 1000
+  maxDepth?: number         // Default: 10
+}
+
+// Built-in key fragments, matched as case-insensitive substrings
+export const DEFAULT_SENSITIVE_KEYS = [
+  'password', 'token', 'key', 'secret', 'apikey', 'api_key',
+  'auth', 'authorization', 'credential', 'pass', 'pwd'
+]
+
+type PathSegment =
+  | { type: 'key'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descend' }
+
+type CompiledRule = { segments: PathSegment[]; action: RedactionAction }
+
+const compiledRuleCache = new WeakMap<RedactionRule[], CompiledRule[]>()
+
+/**
+ * Parses a JSONPath-style expression into segments. Supports `$`, `.name`,
+ * `['name']`, `[0]`, `[*]`, `.*` and recursive descent `..name`.
+ * 
+ * @throws Error if the expression is malformed
+ */
+export function parsePath(path: string): PathSegment[] {
+  let rest = path.trim()
+  if (rest.startsWith('$')) rest = rest.slice(1)
+
+  const segments: PathSegment[] = []
+  while (rest.length > 0) {
+    let match: RegExpExecArray | null
+
+    if (rest.startsWith('..')) {
+      segments.push({ type: 'descend' })
+      rest = rest.slice(2)
+      // A recursive descent is followed directly by a name, wildcard or bracket
+      if ((match = /^(\*|[^.[\]]+)/.exec(rest))) {
+        segments.push(match[1] === '*' ? { type: 'wildcard' } : { type: 'key', name: match[1] })
+        rest = rest.slice(match[0].length)
+      }
+    } else if ((match = /^\.(\*|[^.[\]]+)/.exec(rest))) {
+      segments.push(match[1] === '*' ? { type: 'wildcard' } : { type: 'key', name: match[1] })
+      rest = rest.slice(match[0].length)
+    } else if ((match = /^\[(\*|\d+|'([^']*)'|"([^"]*)")\]/.exec(rest))) {
+      if (match[1] === '*') {
+        segments.push({ type: 'wildcard' })
+      } else if (/^\d+$/.test(match[1])) {
+        segments.push({ type: 'index', index: Number(match[1]) })
+      } else {
+        segments.push({ type: 'key', name: match[2] ?? match[3] })
+      }
+      rest = rest.slice(match[0].length)
+    } else if (segments.length === 0 && (match = /^([^.[\]]+)/.exec(rest))) {
+      // Allow a bare leading key, e.g. "config.apiKey"
+      segments.push({ type: 'key', name: match[1] })
+      rest = rest.slice(match[0].length)
+    } else {
+      throw new Error(`Invalid redaction path: ${path}`)
+    }
+  }
+  return segments
+}
+
+/**
+ * Checks whether a concrete path (keys and array indexes) matches parsed segments.
+ */
+export function matchesPath(segments: PathSegment[], path: Array<string | number>, i = 0, j = 0): boolean {
+  if (i === segments.length) return j === path.length
+
+  const segment = segments[i]
+  if (segment.type === 'descend') {
+    // Recursive descent matches zero or more levels
+    for (let k = j; k <= path.length; k++) {
+      if (matchesPath(segments, path, i + 1, k)) return true
+    }
+    return false
+  }
+
+  if (j >= path.length) return false
+
+  const key = path[j]
+  const matches =
+    segment.type === 'wildcard' ||
+    (segment.type === 'key' && segment.name === String(key)) ||
+    (segment.type === 'index' && segment.index === key)
+
+  return matches && matchesPath(segments, path, i + 1, j + 1)
+}
+
+/**
+ * Compiles (and caches) the path rules of a redaction configuration.
+ * Invalid paths are logged and ignored.
+ */
+export function compileRules(rules: RedactionRule[] | undefined): CompiledRule[] {
+  if (!rules || rules.length === 0) return []
+
+  const cached = compiledRuleCache.get(rules)
+  if (cached) return cached
+
+  const compiled: CompiledRule[] = []
+  for (const rule of rules) {
+    try {
+      compiled.push({ segments: parsePath(rule.path), action: rule.action })
+    } catch (error) {
+      console.warn('[MCP Analytics] Ignoring redaction rule:', error instanceof Error ? error.message : error)
+    }
+  }
+  compiledRuleCache.set(rules, compiled)
+  return compiled
+}
+
+/**
+ * Checks whether a key is sensitive according to the built-in list and user patterns.
+ */
+export function isSensitiveKey(key: string, redactKeys: Array<string | RegExp> = []): boolean {
+  const lowerKey = key.toLowerCase()
+  if (DEFAULT_SENSITIVE_KEYS.some(sensitive => lowerKey.includes(sensitive))) return true
+
+  return redactKeys.some(pattern =>
+    typeof pattern === 'string' ? pattern.toLowerCase() === lowerKey : pattern.test(key)
+  )
+}
@@ -0,0 +1,95 @@
+import { APIError, NetworkError } from './errors.js'
+
+/**
+ * Retry policy for failed analytics batches
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;   // Total delivery attempts per batch, including the first (default: 3)
+  initialDelay?: number;  // Delay before the first retry in ms (default: 1000)
+  maxDelay?: number;      // Upper bound for any single backoff delay in ms (default: 30000)
+  maxRetryAfter?: number; // Upper bound for a server-provided Retry-After delay in ms (default: 600000)
+  backoffFactor?: number; // Multiplier applied per attempt (default: 2)
+  jitter?: boolean;       // Randomize delays to avoid thundering herds (default: true)
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  maxRetryAfter: 600000,
+  backoffFactor: 2,
+  jitter: true
+}
+
+/**
+ * Merges a partial retry policy with the defaults, clamping invalid values.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy }
+  return {
+    ...resolved,
+    maxAttempts: Math.max(1, Math.floor(resolved.maxAttempts)),
+    initialDelay: Math.max(0, resolved.initialDelay),
+    maxDelay: Math.max(0, resolved.maxDelay),
+    maxRetryAfter: Math.max(0, resolved.maxRetryAfter),
+    backoffFactor: Math.max(1, resolved.backoffFactor)
+  }
+}
+
+/**
+ * Determines whether a failed delivery is worth retrying. Network failures,
+ * timeouts, rate limiting and server errors are transient; other 4xx responses
+ * and client-side errors (e.g. missing API key) are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NetworkError) return true
+  if (!(error instanceof APIError) || error.statusCode === undefined) return false
+  return error.statusCode === 408 || error.statusCode === 429 || error.statusCode >= 500
+}
+
+/**
+ * Parses a Retry-After header value (delay in seconds or an HTTP date).
+ * 
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined
+  }
+
+  const date = Date.parse(value)
+  if (isNaN(date)) return undefined
+  return Math.max(0, date - Date.now())
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff.
+ * A server-provided Retry-After takes precedence and is waited in full, up to
+ * maxRetryAfter; the computed backoff is capped at maxDelay.
+ * 
+ * @param attempt - Number of failed attempts so far (1-based)
+ * @param policy - Resolved retry policy
+ * @param retryAfter - Optional server-requested delay in milliseconds
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfter?: number
+): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxRetryAfter)
+  }
+
+  const exponential = policy.initialDelay * Math.pow(policy.backoffFactor, Math.max(0, attempt - 1))
+  const capped = Math.min(exponential, policy.maxDelay)
+
+  // Equal jitter: keep at least half the delay so backoff still grows
+  if (policy.jitter) {
+    return Math.round(capped / 2 + Math.random() * (capped / 2))
+  }
+  return Math.round(capped)
+}
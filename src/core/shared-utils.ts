@@ -16,6 +16,8 @@ export interface AnalyticsConfig {
   apiKey: string | undefined;
   environment: string;
   enabled: boolean;
+  hashSecret: string | undefined;
+  debug: boolean;
 }
 
 /**
@@ -132,6 +134,17 @@ export class AgentUtils {
     };
   }
 
+  /**
+   * Extract the connected MCP client's name and version from McpServer instance
+   */
+  static extractClientVersion(server: any): { name: string; version: string } | null {
+    try {
+      return server?.server?._clientVersion || null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Get analytics configuration from environment variables
    * EXACT SAME LOGIC as in both agent files - no changes to behavior
@@ -142,7 +155,9 @@ export class AgentUtils {
     return {
       apiKey: process.env.MCP_ANALYTICS_API_KEY || globalEnv.MCP_ANALYTICS_API_KEY,
       environment: process.env.ENVIRONMENT || globalEnv.ENVIRONMENT || 'development',
-      enabled: (process.env.MCP_ANALYTICS_ENABLED || globalEnv.MCP_ANALYTICS_ENABLED) !== 'false'
+      enabled: (process.env.MCP_ANALYTICS_ENABLED || globalEnv.MCP_ANALYTICS_ENABLED) !== 'false',
+      hashSecret: process.env.MCP_ANALYTICS_HASH_SECRET || globalEnv.MCP_ANALYTICS_HASH_SECRET,
+      debug: (process.env.MCP_ANALYTICS_DEBUG || globalEnv.MCP_ANALYTICS_DEBUG) === 'true'
     };
   }
 
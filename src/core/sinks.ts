@@ -0,0 +1,157 @@
+import { IngestRequest, IngestResponse, MCPEvent } from './types.js'
+import { APIError, NetworkError } from './errors.js'
+import { parseRetryAfter } from './retry.js'
+
+/**
+ * Destination for batches of analytics events. Sinks throw APIError (or
+ * NetworkError) on failure so the client's retry policy can decide what to do.
+ */
+export interface EventSink {
+  send(events: MCPEvent[]): Promise<IngestResponse | void>
+}
+
+/**
+ * Sends events to the hosted MCP Analytics /ingest endpoint.
+ */
+export class HostedApiSink implements EventSink {
+  private apiKey?: string
+  private apiUrl: string
+
+  constructor(options: { apiKey?: string; apiUrl?: string }) {
+    this.apiKey = options.apiKey
+    this.apiUrl = (options.apiUrl || 'https://v1.mcpanalytics.dev').replace(/\/$/, '')
+  }
+
+  async send(events: MCPEvent[]): Promise<IngestResponse> {
+    if (!this.apiKey) {
+      throw new APIError('Analytics API key not configured')
+    }
+
+    const request: IngestRequest = { events }
+    const response = await postJson(`${this.apiUrl}/ingest`, request, {
+      'X-API-Key': this.apiKey,
+    })
+    return (await response.json()) as IngestResponse
+  }
+}
+
+/**
+ * Posts events as JSON to any HTTP endpoint, e.g. a self-hosted collector.
+ */
+export class WebhookSink implements EventSink {
+  constructor(private options: {
+    url: string
+    headers?: Record<string, string>
+    // Shapes the request body (default: { events })
+    transform?: (events: MCPEvent[]) => unknown
+  }) {}
+
+  async send(events: MCPEvent[]): Promise<void> {
+    const body = this.options.transform ? this.options.transform(events) : { events }
+    await postJson(this.options.url, body, this.options.headers)
+  }
+}
+
+/**
+ * Writes events to the console, one JSON document per line (NDJSON) by default.
+ */
+export class ConsoleSink implements EventSink {
+  constructor(private options: {
+    format?: 'ndjson' | 'pretty'
+    log?: (line: string) => void
+  } = {}) {}
+
+  async send(events: MCPEvent[]): Promise<void> {
+    const log = this.options.log || ((line: string) => console.log(line))
+    for (const event of events) {
+      log(this.options.format === 'pretty' ? JSON.stringify(event, null, 2) : JSON.stringify(event))
+    }
+  }
+}
+
+/**
+ * Keeps events in memory. Useful for tests and for inspecting events locally.
+ */
+export class MemorySink implements EventSink {
+  readonly events: MCPEvent[] = []
+
+  async send(events: MCPEvent[]): Promise<void> {
+    this.events.push(...events)
+  }
+
+  clear(): void {
+    this.events.length = 0
+  }
+}
+
+/**
+ * Sends every batch to several sinks at once. By default the batch only fails
+ * (and is retried) when every sink fails, so a healthy destination doesn't
+ * receive duplicates because a mirror is down. Set requireAll to fail on any error.
+ */
+export class FanOutSink implements EventSink {
+  constructor(private sinks: EventSink[], private options: { requireAll?: boolean } = {}) {}
+
+  async send(events: MCPEvent[]): Promise<IngestResponse | void> {
+    const results = await Promise.allSettled(this.sinks.map(sink => sink.send(events)))
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+
+    if (failures.length > 0 && (this.options.requireAll || failures.length === results.length)) {
+      throw failures[0].reason
+    }
+
+    for (const failure of failures) {
+      console.warn('[MCP Analytics] Sink failed:', failure.reason instanceof Error ? failure.reason.message : 'Unknown error')
+    }
+
+    // Surface the first ingest response so hosted API feedback isn't lost
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) {
+        return result.value
+      }
+    }
+  }
+}
+
+/**
+ * POSTs a JSON body and converts failures into APIError/NetworkError,
+ * honoring Retry-After on 429/503 responses.
+ */
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    throw new NetworkError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let errorData
+    try {
+      errorData = JSON.parse(errorText)
+    } catch {
+      errorData = { error: { message: errorText } }
+    }
+
+    // Honor server-requested backoff on rate limiting and temporary unavailability
+    const retryAfter = response.status === 429 || response.status === 503
+      ? parseRetryAfter(response.headers.get('Retry-After'))
+      : undefined
+
+    throw new APIError(
+      errorData?.error?.message || `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      retryAfter
+    )
+  }
+
+  return response
+}
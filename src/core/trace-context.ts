@@ -0,0 +1,107 @@
+/**
+ * W3C trace context for a single tool call
+ */
+export type TraceContext = {
+  traceId: string              // 32 hex characters, shared by the whole trace
+  spanId: string               // 16 hex characters, identifies this tool call
+  parentSpanId: string | null  // Span of the caller when a traceparent was received
+  traceFlags: string           // 2 hex characters, e.g. '01' when sampled
+  traceparent: string          // Header value to forward on outgoing requests
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+// Trace context is exposed to tool callbacks without mutating the MCP `extra` object
+const activeContexts = new WeakMap<object, TraceContext>()
+
+/**
+ * Parses a W3C traceparent header.
+ * 
+ * @returns The parent's trace id, span id and flags, or null if the header is invalid
+ */
+export function parseTraceparent(
+  header: string | null | undefined
+): { traceId: string; spanId: string; traceFlags: string } | null {
+  if (!header || typeof header !== 'string') return null
+
+  const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase())
+  if (!match) return null
+
+  const [, version, traceId, spanId, traceFlags] = match
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) return null
+
+  return { traceId, spanId, traceFlags }
+}
+
+/**
+ * Formats a trace context as a W3C traceparent header value.
+ */
+export function formatTraceparent(context: { traceId: string; spanId: string; traceFlags?: string }): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags || '01'}`
+}
+
+/**
+ * Starts a new span, continuing the incoming trace when a valid traceparent is given.
+ * 
+ * @param incomingTraceparent - Optional traceparent received from the caller
+ * @returns Context for the new span
+ */
+export function createTraceContext(incomingTraceparent?: string | null): TraceContext {
+  const parent = parseTraceparent(incomingTraceparent)
+  const traceId = parent?.traceId || randomHex(16)
+  const spanId = randomHex(8)
+  const traceFlags = parent?.traceFlags || '01'
+
+  return {
+    traceId,
+    spanId,
+    parentSpanId: parent?.spanId || null,
+    traceFlags,
+    traceparent: formatTraceparent({ traceId, spanId, traceFlags }),
+  }
+}
+
+/**
+ * Reads an incoming traceparent from the MCP request, checking the request's
+ * `_meta` first and falling back to HTTP headers.
+ */
+export function extractTraceparent(extra: any): string | null {
+  try {
+    const fromMeta = extra?._meta?.traceparent
+    if (typeof fromMeta === 'string') return fromMeta
+
+    const header = extra?.requestInfo?.headers?.traceparent
+    if (typeof header === 'string') return header
+    if (Array.isArray(header) && typeof header[0] === 'string') return header[0]
+  } catch {
+    // Silent fallback - trace propagation is optional
+  }
+  return null
+}
+
+/**
+ * Associates a trace context with the `extra` object passed to a tool callback.
+ */
+export function setTraceContext(extra: unknown, context: TraceContext): void {
+  if (extra && typeof extra === 'object') {
+    activeContexts.set(extra, context)
+  }
+}
+
+/**
+ * Returns the trace context of the current tool call. Call it with the `extra`
+ * argument your tool callback receives, and forward `traceparent` on outgoing fetches.
+ * 
+ * @param extra - The second argument passed to the tool callback
+ * @returns The active trace context, or undefined outside an analytics-wrapped tool
+ */
+export function getTraceContext(extra: unknown): TraceContext | undefined {
+  if (!extra || typeof extra !== 'object') return undefined
+  return activeContexts.get(extra)
+}
+
+export function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes)
+  crypto.getRandomValues(buffer)
+  return Array.from(buffer, byte => byte.toString(16).padStart(2, '0')).join('')
+}
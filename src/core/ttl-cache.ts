@@ -0,0 +1,54 @@
+/**
+ * Small in-memory cache whose entries expire after a fixed time-to-live.
+ * Expired entries are dropped on read; the oldest entry is evicted once
+ * maxEntries is reached.
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>()
+
+  /**
+   * @param ttlMs - How long an entry stays valid, in milliseconds (0 disables caching)
+   * @param maxEntries - Maximum number of entries kept (default: 1000)
+   */
+  constructor(private ttlMs: number, private maxEntries = 1000) {}
+
+  /**
+   * Returns the cached value, or undefined if it's missing or expired.
+   *
+   * @param key - Cache key
+   * @param now - Current time in milliseconds, injectable for tests
+   */
+  get(key: string, now = Date.now()): V | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  /**
+   * Caches a value for the configured TTL.
+   *
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param now - Current time in milliseconds, injectable for tests
+   */
+  set(key: string, value: V, now = Date.now()): void {
+    if (this.ttlMs <= 0) return
+    this.entries.delete(key)
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs })
+  }
+
+  /**
+   * Removes a cached value.
+   */
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+}
@@ -1,4 +1,30 @@
 // types.ts
+import type { RetryPolicy } from './retry.js';
+import type { EventPersistenceAdapter } from './persistence.js';
+import type { EventSink } from './sinks.js';
+import type { RateLimitOptions } from './rate-limiter.js';
+
+/**
+ * Outcome of an MCP call, recorded on every analytics event so error rates
+ * distinguish tool-reported errors from exceptions, bad input and cancellations.
+ */
+export type CallOutcome =
+  | 'success'           // Completed normally
+  | 'tool_error'        // Returned a result with isError: true
+  | 'exception'         // Threw an unexpected error
+  | 'validation_error'  // Rejected its input (ZodError or MCP InvalidParams)
+  | 'cancelled'         // Aborted by the client before completing
+  | 'payment_required'; // Paid tool not executed because payment is missing
+
+/**
+ * Per-user analytics consent:
+ * - `full` - events are recorded normally
+ * - `anonymous` - events are recorded without identity fields (userId, email, username, customerId)
+ * - `aggregate` - only anonymous counters are recorded (no parameters, results, session or trace data)
+ * - `none` - no events are recorded
+ */
+export type ConsentLevel = 'full' | 'anonymous' | 'aggregate' | 'none';
+
 export interface MCPEvent {
   eventType: string;
   serverName: string;
@@ -11,9 +37,19 @@ export interface MCPEvent {
   parameters?: Record<string, any>;
   result?: any;
   
+  // Resource and prompt data
+  resourceName?: string;
+  resourceUri?: string | null;
+  promptName?: string;
+  
   // MCP session data
   sessionId?: string | null;
-  requestId?: string | null;
+  requestId?: string | number | null;
+  
+  // W3C trace context
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string | null;
   
   // User info fields
   userId?: string;
@@ -23,11 +59,27 @@ export interface MCPEvent {
   // Execution data
   duration?: number;
   success?: boolean;
+  outcome?: CallOutcome;
   
   // Error data
   errorType?: string;
   errorMessage?: string;
   
+  // Tool metadata
+  tags?: string[];
+  category?: string;
+  owner?: string;
+  toolVersion?: string;
+
+  // Privacy
+  piiDetected?: string[]; // Names of the PII detectors that masked content in this event
+  consent?: ConsentLevel; // Set when the event was downgraded by the user's consent level
+  sampleRate?: number; // Set when sampling is configured - each kept event stands for 1 / sampleRate calls
+  
+  // Custom event data
+  eventName?: string;
+  properties?: Record<string, unknown>;
+  
   // Client version data
   clientVersion?: {
     name: string;
@@ -49,6 +101,237 @@ export interface MCPEvent {
   [key: string]: any;
 }
 
+/**
+ * Event types emitted by the SDK
+ */
+export const EVENT_TYPES = {
+  TOOL_STARTED: 'mcp.tool.started',
+  TOOL_COMPLETED: 'mcp.tool.completed',
+  TOOL_FAILED: 'mcp.tool.failed',
+  TOOL_PAYMENT_REQUIRED: 'mcp.tool.payment_required',
+  TOOL_PAYMENT_COMPLETED: 'mcp.tool.payment_completed',
+  TOOL_PAYMENT_FAILED: 'mcp.tool.payment_failed',
+  TOOL_FREE_QUOTA_USED: 'mcp.tool.free_quota_used',
+  TOOL_FREE_QUOTA_EXHAUSTED: 'mcp.tool.free_quota_exhausted',
+  TOOL_USAGE_NOT_BILLED: 'mcp.tool.usage_not_billed',
+  RESOURCE_READ: 'mcp.resource.read',
+  PROMPT_GET: 'mcp.prompt.get',
+  SERVER_INIT: 'mcp.server.init',
+  CUSTOM: 'mcp.custom',
+  PAYMENT_CHECKOUT_COMPLETED: 'mcp.payment.checkout_completed',
+  PAYMENT_SUBSCRIPTION_UPDATED: 'mcp.payment.subscription_updated',
+  PAYMENT_SUBSCRIPTION_DELETED: 'mcp.payment.subscription_deleted',
+  PAYMENT_INVOICE_PAID: 'mcp.payment.invoice_paid',
+} as const;
+
+export type AnalyticsEventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
+
+/**
+ * Fields shared by every analytics event
+ */
+export interface BaseEventFields {
+  serverName: string;
+  timestamp: number;
+  serverVersion?: string;
+  environment?: string;
+
+  // MCP session data and W3C trace context
+  sessionId?: string | null;
+  requestId?: string | number | null;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string | null;
+
+  // User info fields (removed by the 'anonymous' and 'aggregate' consent levels)
+  userId?: string;
+  email?: string;
+  username?: string;
+
+  clientVersion?: {
+    name: string;
+    version: string;
+  } | null;
+
+  // Tool metadata
+  tags?: string[];
+  category?: string;
+  owner?: string;
+  toolVersion?: string;
+
+  // Privacy and sampling
+  piiDetected?: string[];
+  consent?: ConsentLevel;
+  sampleRate?: number;
+
+  // Custom fields returned by enrich()
+  [key: string]: unknown;
+}
+
+/**
+ * Fields shared by tool, resource and prompt call events
+ */
+export interface CallEventFields extends BaseEventFields {
+  parameters?: Record<string, any>; // Sanitized; removed by the 'aggregate' consent level
+  result?: any;                     // Sanitized; omitted when trackResults is false
+  duration: number;
+  success: boolean;
+  outcome: CallOutcome;
+  errorType?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Stripe context attached to every paid tool event
+ */
+export interface PaymentEventFields {
+  customerId: string | null;
+  paymentType: string | null; // 'usageBased' or 'oneTimeSubscription'
+  priceId: string | null;
+  paymentStatus: string | null;
+  paymentAmount: number | null;
+  paymentCurrency: string | null;
+  paymentDate: string | null;
+  paymentSessionId: string | null;
+  subscriptionId: string | null;
+}
+
+/**
+ * Free tier usage attached to free quota events
+ */
+export interface FreeQuotaEventFields {
+  freeQuotaLimit: number;
+  freeQuotaUsed: number;      // Free calls used in the current window, including this one
+  freeQuotaRemaining: number;
+  freeQuotaPeriod: 'day' | 'month' | 'lifetime';
+  freeQuotaResetsAt: string | null; // Null for lifetime quotas
+}
+
+export interface ToolStartedEvent extends BaseEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_STARTED;
+  toolName: string;
+  parameters?: Record<string, any>;
+}
+
+export interface ToolCompletedEvent extends CallEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_COMPLETED;
+  toolName: string;
+  success: true;
+  outcome: 'success';
+}
+
+export interface ToolFailedEvent extends CallEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_FAILED;
+  toolName: string;
+  success: false;
+}
+
+export interface ToolPaymentRequiredEvent extends CallEventFields, PaymentEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_PAYMENT_REQUIRED;
+  toolName: string;
+  success: false;
+  outcome: 'payment_required';
+}
+
+export interface ToolPaymentCompletedEvent extends CallEventFields, PaymentEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_PAYMENT_COMPLETED;
+  toolName: string;
+  success: true;
+  outcome: 'success';
+  billedQuantity?: number; // Quantity sent to the Stripe meter for usage-based tools
+}
+
+export interface ToolPaymentFailedEvent extends CallEventFields, PaymentEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_PAYMENT_FAILED;
+  toolName: string;
+  success: false;
+}
+
+/**
+ * Recorded instead of mcp.tool.payment_completed when an unpaid call runs on the free quota
+ */
+export interface ToolFreeQuotaUsedEvent extends CallEventFields, PaymentEventFields, FreeQuotaEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_FREE_QUOTA_USED;
+  toolName: string;
+}
+
+/**
+ * Recorded once per quota window, on the first call refused because the free quota ran out
+ */
+export interface ToolFreeQuotaExhaustedEvent extends BaseEventFields, PaymentEventFields, FreeQuotaEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_FREE_QUOTA_EXHAUSTED;
+  toolName: string;
+}
+
+/**
+ * Recorded when a usage-based paid tool ran but its usage was not sent to the Stripe meter
+ */
+export interface ToolUsageNotBilledEvent extends BaseEventFields, PaymentEventFields {
+  eventType: typeof EVENT_TYPES.TOOL_USAGE_NOT_BILLED;
+  toolName: string;
+  billingTiming: 'before' | 'afterSuccess' | 'always';
+  usageNotBilledReason:
+    | 'tool_failed'         // The call failed and billingTiming is 'afterSuccess'
+    | 'meter_value_failed'  // meterValue threw or returned an invalid quantity
+    | 'billing_failed';     // Stripe rejected the meter event
+}
+
+export interface ResourceReadEvent extends CallEventFields {
+  eventType: typeof EVENT_TYPES.RESOURCE_READ;
+  resourceName: string;
+  resourceUri: string | null;
+}
+
+export interface PromptGetEvent extends CallEventFields {
+  eventType: typeof EVENT_TYPES.PROMPT_GET;
+  promptName: string;
+}
+
+export interface ServerInitEvent extends BaseEventFields {
+  eventType: typeof EVENT_TYPES.SERVER_INIT;
+}
+
+export interface CustomAnalyticsEvent extends BaseEventFields {
+  eventType: typeof EVENT_TYPES.CUSTOM;
+  eventName: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Recorded for each Stripe webhook processed by handleStripeWebhook()
+ */
+export interface PaymentWebhookEvent extends BaseEventFields, PaymentEventFields {
+  eventType:
+    | typeof EVENT_TYPES.PAYMENT_CHECKOUT_COMPLETED
+    | typeof EVENT_TYPES.PAYMENT_SUBSCRIPTION_UPDATED
+    | typeof EVENT_TYPES.PAYMENT_SUBSCRIPTION_DELETED
+    | typeof EVENT_TYPES.PAYMENT_INVOICE_PAID;
+  stripeEventId: string;
+  toolName?: string;           // Paid tool the payment unlocks, when known
+  entitlementActive?: boolean; // Whether the customer may use the tool after this webhook
+}
+
+export type ToolEvent = ToolStartedEvent | ToolCompletedEvent | ToolFailedEvent;
+export type PaymentEvent =
+  | ToolPaymentRequiredEvent
+  | ToolPaymentCompletedEvent
+  | ToolPaymentFailedEvent
+  | ToolFreeQuotaUsedEvent
+  | ToolFreeQuotaExhaustedEvent
+  | ToolUsageNotBilledEvent
+  | PaymentWebhookEvent;
+export type ServerEvent = ServerInitEvent;
+
+/**
+ * Any event emitted by the SDK. Switch on `eventType` to narrow to its payload type.
+ */
+export type AnalyticsEvent =
+  | ToolEvent
+  | PaymentEvent
+  | ResourceReadEvent
+  | PromptGetEvent
+  | ServerEvent
+  | CustomAnalyticsEvent;
+
 export interface IngestRequest {
   events: MCPEvent[];
 }
@@ -65,8 +348,29 @@ export interface IngestResponse {
   timestamp: number;
 }
 
+/**
+ * What to drop when the event queue is full:
+ * - `drop-oldest` - discard the oldest queued event
+ * - `drop-newest` - discard the incoming event
+ * - `drop-non-error` - discard the oldest successful event, keeping failures as long as possible
+ */
+export type QueueOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'drop-non-error';
+
+/**
+ * Delivery counters of an AnalyticsClient
+ */
+export interface AnalyticsClientStats {
+  enqueued: number;      // Events accepted by queueEvent()
+  sent: number;          // Events delivered to the sink
+  dropped: number;       // Events discarded (queue overflow, rate limit or exhausted retries)
+  rejected: number;      // Events delivered but rejected by the ingest API (validation_errors)
+  skipped: number;       // Events the ingest API reported as skipped
+  failedBatches: number; // Failed delivery attempts, including retried ones
+  queueSize: number;     // Events currently pending or in flight
+}
+
 export interface AnalyticsConfig {
-  apiKey: string;
+  apiKey?: string; // Required for the hosted API, unused with a custom sink
   apiUrl?: string;
   serverName?: string;
   serverVersion?: string;
@@ -74,4 +378,15 @@ export interface AnalyticsConfig {
   batchSize?: number;
   flushInterval?: number;
   enabled?: boolean;
+  retry?: RetryPolicy;
+  onEventsDropped?: (count: number, error: Error) => void;
+  persistence?: EventPersistenceAdapter;
+  rateLimit?: RateLimitOptions; // Drop events beyond this rate instead of queueing them
+  maxQueueSize?: number; // Pending events kept while delivery is failing (default: 1000)
+  overflowPolicy?: QueueOverflowPolicy; // Which event to drop when the queue is full (default: 'drop-oldest')
+  onValidationError?: (event: MCPEvent, error: string) => void; // Called for each event the ingest API rejects
+  deadLetterSink?: EventSink; // Receives events rejected by the ingest API
+  debug?: boolean; // Log rejected events and other diagnostics
+  validateEvents?: boolean; // Reject events that don't match their schema in queueEvent() (default: on when NODE_ENV is 'development' or 'test')
+  sink?: EventSink; // Defaults to the hosted /ingest endpoint
 }
\ No newline at end of file
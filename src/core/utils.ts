@@ -1,28 +1,94 @@
-export function sanitizeParameters(params: Record<string, any>): Record<string, any> {
+import { ValidationError } from './errors.js'
+import { compileRules, isSensitiveKey, matchesPath, type RedactionOptions } from './redaction.js'
+import type { PiiScanner } from './pii.js'
+
+/**
+ * Sanitizes tool parameters before they are recorded. Redaction is applied
+ * recursively to nested objects and arrays.
+ * 
+ * @param params - Raw tool parameters
+ * @param options - Optional redaction configuration (key patterns, allowlist, path rules, limits)
+ * @param piiScanner - Optional scanner that masks PII found inside string values
+ * @returns A sanitized copy of the parameters
+ */
+export function sanitizeParameters(
+  params: Record<string, any>,
+  options: RedactionOptions = {},
+  piiScanner?: PiiScanner
+): Record<string, any> {
   if (!params || typeof params !== 'object') return {}
-  
-  const sanitized = { ...params }
-  const sensitiveKeys = [
-    'password', 'token', 'key', 'secret', 'apikey', 'api_key',
-    'auth', 'authorization', 'credential', 'pass', 'pwd'
-  ]
-  
-  for (const key in sanitized) {
-    const lowerKey = key.toLowerCase()
-    if (sensitiveKeys.some(sensitive => lowerKey.includes(sensitive))) {
-      sanitized[key] = '[REDACTED]'
-    }
-    
-    if (typeof sanitized[key] === 'string' && sanitized[key].length > 1000) {
-      sanitized[key] = sanitized[key].substring(0, 1000) + '...[TRUNCATED]'
+
+  const context: RedactionContext = {
+    options,
+    rules: compileRules(options.rules),
+    allowKeys: options.allowKeys ? new Set(options.allowKeys.map(key => key.toLowerCase())) : undefined,
+    maxStringLength: options.maxStringLength ?? 1000,
+    maxDepth: options.maxDepth ?? 10,
+    piiScanner
+  }
+
+  const sanitized = sanitizeValue(params, [], context)
+  return sanitized && typeof sanitized === 'object' && !Array.isArray(sanitized) ? sanitized : {}
+}
+
+type RedactionContext = {
+  options: RedactionOptions
+  rules: ReturnType<typeof compileRules>
+  allowKeys?: Set<string>
+  maxStringLength: number
+  maxDepth: number
+  piiScanner?: PiiScanner
+}
+
+const REMOVE = Symbol('remove')
+
+// `allowed` is set below an `allow` rule: key-name redaction is skipped for the whole subtree
+function sanitizeValue(value: any, path: Array<string | number>, context: RedactionContext, allowed = false): any {
+  if (path.length > 0) {
+    const rule = context.rules.find(rule => matchesPath(rule.segments, path))
+    if (rule?.action === 'remove') return REMOVE
+    if (rule?.action === 'redact') return '[REDACTED]'
+    if (rule?.action === 'keep') return value
+    if (rule?.action === 'allow') allowed = true
+
+    const key = path[path.length - 1]
+    if (typeof key === 'string' && !allowed) {
+      if (context.allowKeys && !context.allowKeys.has(key.toLowerCase())) return '[REDACTED]'
+      if (isSensitiveKey(key, context.options.redactKeys)) return '[REDACTED]'
     }
   }
-  
+
+  if (typeof value === 'string') {
+    const masked = context.piiScanner ? context.piiScanner.mask(value) : value
+    return masked.length > context.maxStringLength
+      ? masked.substring(0, context.maxStringLength) + '...[TRUNCATED]'
+      : masked
+  }
+
+  if (!value || typeof value !== 'object') return value
+
+  if (path.length >= context.maxDepth) return '[MAX_DEPTH]'
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) => sanitizeValue(item, [...path, index], context, allowed))
+      .filter(item => item !== REMOVE)
+  }
+
+  // Leave non-plain objects (Date, Buffer, ...) to the serializer
+  const proto = Object.getPrototypeOf(value)
+  if (proto !== Object.prototype && proto !== null) return value
+
+  const sanitized: Record<string, any> = {}
+  for (const key in value) {
+    const result = sanitizeValue(value[key], [...path, key], context, allowed)
+    if (result !== REMOVE) sanitized[key] = result
+  }
   return sanitized
 }
 
 // ← NEW: Result sanitization function
-export function sanitizeResult(result: any): any {
+export function sanitizeResult(result: any, piiScanner?: PiiScanner): any {
   if (!result) return result;
   
   try {
@@ -30,12 +96,12 @@ export function sanitizeResult(result: any): any {
     if (result.content && Array.isArray(result.content)) {
       return {
         ...result,
-        content: result.content.map((item: any) => sanitizeContentItem(item))
+        content: result.content.map((item: any) => sanitizeContentItem(item, piiScanner))
       };
     }
     
     // Handle other result types
-    return sanitizeGenericResult(result);
+    return sanitizeGenericResult(result, piiScanner);
   } catch (error) {
     // If sanitization fails, return a safe fallback
     return {
@@ -46,7 +112,7 @@ export function sanitizeResult(result: any): any {
 }
 
 // ← NEW: Sanitize individual content items
-function sanitizeContentItem(item: any): any {
+function sanitizeContentItem(item: any, piiScanner?: PiiScanner): any {
   if (!item || typeof item !== 'object') return item;
   
   let sanitized = { ...item }; // ← FIXED: Changed const to let
@@ -55,9 +121,11 @@ function sanitizeContentItem(item: any): any {
   switch (item.type) {
     case 'text':
       if (typeof item.text === 'string') {
+        if (piiScanner) sanitized.text = piiScanner.mask(item.text);
+
         // Truncate long text content (start lenient)
         if (item.text.length > 2000) {
-          sanitized.text = item.text.substring(0, 2000) + '...[TRUNCATED]';
+          sanitized.text = sanitized.text.substring(0, 2000) + '...[TRUNCATED]';
           sanitized._originalLength = item.text.length;
         }
       }
@@ -73,24 +141,29 @@ function sanitizeContentItem(item: any): any {
       break;
       
     case 'resource':
-      // Keep resource references but truncate large content
-      if (item.text && typeof item.text === 'string' && item.text.length > 1000) {
-        sanitized.text = item.text.substring(0, 1000) + '...[TRUNCATED]';
-        sanitized._originalLength = item.text.length;
+      // Embedded resources carry their content in item.resource - keep the reference, truncate the text
+      if (item.resource && typeof item.resource.text === 'string') {
+        const text: string = item.resource.text;
+        sanitized.resource = { ...item.resource, text: piiScanner ? piiScanner.mask(text) : text };
+        if (text.length > 1000) {
+          sanitized.resource.text = sanitized.resource.text.substring(0, 1000) + '...[TRUNCATED]';
+          sanitized._originalLength = text.length;
+        }
       }
       break;
       
     default:
       // Handle unknown content types safely
-      sanitized = sanitizeGenericResult(item);
+      sanitized = sanitizeGenericResult(item, piiScanner);
   }
   
   return sanitized;
 }
 
 // ← NEW: Generic result sanitization
-function sanitizeGenericResult(result: any): any {
+function sanitizeGenericResult(result: any, piiScanner?: PiiScanner): any {
   if (typeof result === 'string') {
+    if (piiScanner) result = piiScanner.mask(result);
     if (result.length > 2000) {
       return result.substring(0, 2000) + '...[TRUNCATED]';
     }
@@ -107,7 +180,7 @@ function sanitizeGenericResult(result: any): any {
     return {
       _type: 'array',
       _originalLength: result.length,
-      items: truncatedArray.map(item => sanitizeGenericResult(item))
+      items: truncatedArray.map(item => sanitizeGenericResult(item, piiScanner))
     };
   }
   
@@ -126,7 +199,7 @@ function sanitizeGenericResult(result: any): any {
       if (value instanceof Uint8Array || Buffer.isBuffer?.(value)) {
         sanitized[key] = `[BINARY_DATA:${value.length}_bytes]`;
       } else {
-        sanitized[key] = sanitizeGenericResult(value);
+        sanitized[key] = sanitizeGenericResult(value, piiScanner);
       }
       fieldCount++;
     }
@@ -135,4 +208,55 @@ function sanitizeGenericResult(result: any): any {
   }
   
   return result;
-}
\ No newline at end of file
+}
+/**
+ * Ensures a value survives JSON serialization unchanged. Rejects functions, symbols,
+ * bigints, non-finite numbers, circular references and class instances such as Map
+ * or Set that would silently serialize to `{}`. Undefined object properties are allowed
+ * since JSON simply omits them.
+ * 
+ * @param value - Value to check
+ * @param path - Path used in error messages
+ * @throws ValidationError describing the first offending value
+ */
+export function assertJsonSerializable(value: unknown, path = 'value', seen = new Set<object>()): void {
+  if (value === null) return
+
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new ValidationError(`${path} is not a finite number`, path)
+      }
+      return
+    case 'object':
+      break
+    default:
+      throw new ValidationError(`${path} has unsupported type ${typeof value}`, path)
+  }
+
+  const obj = value as object
+  if (obj instanceof Date) return
+
+  if (seen.has(obj)) {
+    throw new ValidationError(`${path} contains a circular reference`, path)
+  }
+  seen.add(obj)
+
+  if (Array.isArray(obj)) {
+    obj.forEach((item, index) => assertJsonSerializable(item, `${path}[${index}]`, seen))
+  } else {
+    const proto = Object.getPrototypeOf(obj)
+    if (proto !== Object.prototype && proto !== null) {
+      throw new ValidationError(`${path} is a ${obj.constructor?.name || 'class'} instance, not a plain object`, path)
+    }
+    for (const [key, item] of Object.entries(obj)) {
+      if (item === undefined) continue
+      assertJsonSerializable(item, `${path}.${key}`, seen)
+    }
+  }
+
+  seen.delete(obj)
+}
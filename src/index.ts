@@ -13,16 +13,95 @@ export type {
   PaymentState, 
   PaymentProps 
 } from './stripe/AnalyticsPaidMcpAgent.js';
+export type { BillingTiming } from './stripe/register-analytics-paid-tool.js';
 
 export type {
   MCPEvent,
-  AnalyticsConfig
+  AnalyticsConfig,
+  CallOutcome,
+  ConsentLevel,
+  QueueOverflowPolicy,
+  AnalyticsClientStats,
+  AnalyticsEvent,
+  AnalyticsEventType,
+  BaseEventFields,
+  CallEventFields,
+  PaymentEventFields,
+  ToolEvent,
+  ToolStartedEvent,
+  ToolCompletedEvent,
+  ToolFailedEvent,
+  PaymentEvent,
+  ToolPaymentRequiredEvent,
+  ToolPaymentCompletedEvent,
+  ToolPaymentFailedEvent,
+  ToolFreeQuotaUsedEvent,
+  ToolFreeQuotaExhaustedEvent,
+  ToolUsageNotBilledEvent,
+  FreeQuotaEventFields,
+  PaymentWebhookEvent,
+  ResourceReadEvent,
+  PromptGetEvent,
+  ServerEvent,
+  ServerInitEvent,
+  CustomAnalyticsEvent
 } from './core/types.js';
 
+export type { RetryPolicy } from './core/retry.js';
+export type { RateLimitOptions } from './core/rate-limiter.js';
+export type { SamplingOptions } from './analytics/sampling.js';
+export type { EventPersistenceAdapter } from './core/persistence.js';
+export type { EntitlementStore, ToolEntitlement } from './stripe/entitlements.js';
+export type { StripeWebhookOptions } from './stripe/webhooks.js';
+export type { FreeQuotaOptions, FreeQuotaStore, FreeQuotaUsage } from './stripe/free-quota.js';
+export type { EventSink } from './core/sinks.js';
+export type { OtlpTraceSinkOptions } from './telemetry/otlp-sink.js';
+export type { TraceContext } from './core/trace-context.js';
+export type { ToolMetadataOptions } from './analytics/metadata.js';
+export type { ParamCaptureMode, ParamCaptureOptions } from './analytics/schema-capture.js';
+export type { ConsentCheck, ConsentStore } from './analytics/consent.js';
+export type { AnalyticsConsentState } from './core/AnalyticsMcpAgent.js';
+export type { RedactionOptions, RedactionRule, RedactionAction } from './core/redaction.js';
+export type { PiiDetector, PiiDetectorName, PiiScanOptions } from './core/pii.js';
+export type { UserPrivacyOptions, IdentityFieldMode } from './core/pseudonymize.js';
+
 // Core utilities (advanced users)
 export { AnalyticsClient } from './core/client.js';
-export { APIError } from './core/errors.js';
+export { APIError, NetworkError, ValidationError } from './core/errors.js';
+export { DurableObjectPersistenceAdapter } from './core/persistence.js';
+export { KVConsentStore } from './analytics/consent.js';
+export { DurableObjectEntitlementStore, KVEntitlementStore } from './stripe/entitlements.js';
+export { handleStripeWebhook } from './stripe/webhooks.js';
+export { DurableObjectFreeQuotaStore, KVFreeQuotaStore } from './stripe/free-quota.js';
+export { HostedApiSink, WebhookSink, ConsoleSink, MemorySink, FanOutSink } from './core/sinks.js';
+export { OtlpTraceSink } from './telemetry/otlp-sink.js';
+export { getTraceContext, formatTraceparent, parseTraceparent } from './core/trace-context.js';
+export { PiiScanner, BUILT_IN_PII_DETECTORS } from './core/pii.js';
+export { EVENT_TYPES } from './core/types.js';
+export {
+  mcpEventSchema,
+  toolStartedEventSchema,
+  toolCompletedEventSchema,
+  toolFailedEventSchema,
+  toolPaymentRequiredEventSchema,
+  toolPaymentCompletedEventSchema,
+  toolPaymentFailedEventSchema,
+  toolFreeQuotaUsedEventSchema,
+  toolFreeQuotaExhaustedEventSchema,
+  toolUsageNotBilledEventSchema,
+  paymentCheckoutCompletedEventSchema,
+  paymentSubscriptionUpdatedEventSchema,
+  paymentSubscriptionDeletedEventSchema,
+  paymentInvoicePaidEventSchema,
+  resourceReadEventSchema,
+  promptGetEventSchema,
+  serverInitEventSchema,
+  customEventSchema,
+  validateEvent
+} from './core/event-schemas.js';
 
 // Advanced registration functions (for custom implementations)
 export { registerAnalyticsTool } from './analytics/register-analytics-tool.js';
+export { registerAnalyticsResource } from './analytics/register-analytics-resource.js';
+export { registerAnalyticsPrompt } from './analytics/register-analytics-prompt.js';
 export { registerAnalyticsPaidTool } from './stripe/register-analytics-paid-tool.js';
\ No newline at end of file
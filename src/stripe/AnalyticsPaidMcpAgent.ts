@@ -2,8 +2,20 @@ import { AnalyticsMcpAgent } from '../core/AnalyticsMcpAgent.js' // CHANGED: Imp
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z, ZodRawShape } from 'zod'
 import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { registerAnalyticsPaidTool } from './register-analytics-paid-tool.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { registerAnalyticsPaidTool, validatePaidToolOptions } from './register-analytics-paid-tool.js'
+import type { BillingTiming } from './register-analytics-paid-tool.js'
 import { AgentUtils } from '../core/shared-utils.js' // ← NEW: Import shared utilities
+import type { ToolMetadataOptions } from '../analytics/metadata.js'
+import type { ParamCaptureOptions } from '../analytics/schema-capture.js'
+import type { RedactionOptions } from '../core/redaction.js'
+import type { PiiScanOptions } from '../core/pii.js'
+import type { UserPrivacyOptions } from '../core/pseudonymize.js'
+import { KVEntitlementStore } from './entitlements.js'
+import type { EntitlementStore } from './entitlements.js'
+import { KVFreeQuotaStore } from './free-quota.js'
+import type { FreeQuotaOptions, FreeQuotaStore } from './free-quota.js'
+import { handleStripeWebhook } from './webhooks.js'
 
 export type PaymentState = {
   stripe?: {
@@ -15,18 +27,81 @@ export type PaymentProps = {
   userEmail: string;
 };
 
-export type AnalyticsPaidToolOptions = {
+export type AnalyticsPaidToolOptions = ToolMetadataOptions & ParamCaptureOptions & {
   paymentReason: string;
   meterEvent?: string;
+  meterValue?: (params: any, result: CallToolResult) => number | Promise<number>; // Quantity to bill once the tool returned (default: 1 per call)
+  billingTiming?: BillingTiming; // When usage is billed (default: 'afterSuccess', failed calls are never billed)
   checkout: any;
+  /** @deprecated Ignored - tools share the agent's client, see createAnalyticsClient() */
   batchSize?: number;
+  /** @deprecated Ignored - tools share the agent's client, see createAnalyticsClient() */
   flushInterval?: number;
   trackResults?: boolean;
+  redaction?: RedactionOptions;
+  pii?: boolean | PiiScanOptions;
+  privacy?: UserPrivacyOptions;
+  entitlementCacheTtl?: number; // How long a paid entitlement is trusted without asking Stripe, in ms (default: 60000, 0 disables)
+  freeQuota?: FreeQuotaOptions; // Free calls per customer before payment is required
 };
 
 export abstract class AnalyticsPaidMcpAgent<Env = unknown, State extends PaymentState = PaymentState, Props extends PaymentProps & Record<string, unknown> = PaymentProps & Record<string, unknown>> extends AnalyticsMcpAgent<Env, State, Props> {
   abstract server: McpServer
 
+  /**
+   * Store of tool entitlements maintained by handleStripeWebhook() and consulted by
+   * paid tools before Stripe. Webhooks and tools usually run in different agent
+   * instances, so this must be shared across them: defaults to the MCP_ANALYTICS_KV
+   * namespace, or none (tools ask Stripe, webhooks are rejected) when it isn't bound.
+   */
+  protected getEntitlementStore(): EntitlementStore | undefined {
+    // @ts-ignore
+    const namespace: KVNamespace | undefined = this.env?.MCP_ANALYTICS_KV
+    return namespace ? new KVEntitlementStore(namespace) : undefined
+  }
+
+  /**
+   * Store of free quota usage for paid tools with a `freeQuota`, keyed by customer.
+   * It must outlive the session, or reconnecting would reset the quota: defaults to
+   * the MCP_ANALYTICS_KV namespace, or none (every call requires payment) when it
+   * isn't bound.
+   */
+  protected getFreeQuotaStore(): FreeQuotaStore | undefined {
+    // @ts-ignore
+    const namespace: KVNamespace | undefined = this.env?.MCP_ANALYTICS_KV
+    return namespace ? new KVFreeQuotaStore(namespace) : undefined
+  }
+
+  /**
+   * Handles a Stripe webhook request: verifies its signature with STRIPE_WEBHOOK_SECRET,
+   * updates tool entitlements and records an `mcp.payment.*` analytics event.
+   * 
+   * @param request - The webhook request forwarded from your Worker's fetch handler
+   * @returns The response to send back to Stripe
+   */
+  async handleStripeWebhook(request: Request): Promise<Response> {
+    // @ts-ignore
+    const { STRIPE_SECRET_KEY: stripeSecretKey, STRIPE_WEBHOOK_SECRET: webhookSecret } = this.env
+    const store = this.getEntitlementStore()
+    if (!stripeSecretKey || !webhookSecret || !store) {
+      console.warn('[MCP Analytics] Stripe webhook received but STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET or the entitlement store (MCP_ANALYTICS_KV) is missing')
+      return new Response('Stripe webhooks are not configured', { status: 500 })
+    }
+
+    const config = AgentUtils.getAnalyticsConfig();
+    const { serverName, serverVersion } = AgentUtils.extractServerInfo(this.server);
+
+    return handleStripeWebhook(request, {
+      stripeSecretKey,
+      webhookSecret,
+      store,
+      analyticsClient: this.getAnalyticsClient(),
+      serverName,
+      serverVersion,
+      environment: config.environment
+    })
+  }
+
   analyticsPaidTool<TSchema extends ZodRawShape>(
     toolName: string,
     toolDescription: string,
@@ -36,7 +111,9 @@ export abstract class AnalyticsPaidMcpAgent<Env = unknown, State extends Payment
     options: AnalyticsPaidToolOptions
   ): void {
     const mcpServer = this.server
-    
+
+    // Registration is async and not awaited, so invalid options must throw here
+    validatePaidToolOptions(toolName, options);
 
     const config = AgentUtils.getAnalyticsConfig();
     const { serverName, serverVersion } = AgentUtils.extractServerInfo(this.server);
@@ -50,13 +127,21 @@ export abstract class AnalyticsPaidMcpAgent<Env = unknown, State extends Payment
     const combinedOptions = {
       ...options,
       apiKey: config.apiKey,
+      getAnalyticsClient: this.getAnalyticsClient() ? () => this.getAnalyticsClient() : undefined,
       serverName,       
       serverVersion,    
       environment: config.environment,
       enabled: config.enabled,
       trackResults: options.trackResults !== false, // Default to true, allow override
+      privacy: this.resolveUserPrivacy(options.privacy),
       getUserInfo,
       getSessionId,
+      getConsent: () => this.getAnalyticsConsent(),
+      // Resolve the Stripe customer once per user, then reuse it from agent state
+      getCustomerId: () => this.state?.stripe?.customerId,
+      setCustomerId: (customerId: string) => this.setState({ ...this.state, stripe: { ...this.state?.stripe, customerId } }),
+      entitlementStore: this.getEntitlementStore(),
+      freeQuotaStore: options.freeQuota ? this.getFreeQuotaStore() : undefined,
       userEmail: this.props.userEmail,
       // @ts-ignore
       stripeSecretKey: this.env.STRIPE_SECRET_KEY
@@ -0,0 +1,104 @@
+/**
+ * Whether a Stripe customer may use a paid tool, as last reported by a Stripe webhook
+ */
+export type ToolEntitlement = {
+  customerId: string
+  toolName: string
+  active: boolean
+  checkoutSessionId?: string | null
+  subscriptionId?: string | null
+  subscriptionStatus?: string | null
+  priceId?: string | null
+  updatedAt: number // Creation time of the Stripe event that last changed the entitlement, in milliseconds
+}
+
+/**
+ * Stores tool entitlements written by the Stripe webhook handler and read by paid tools
+ */
+export interface EntitlementStore {
+  /** Returns the entitlement of a customer for a tool, or null if no webhook has reported one */
+  get(customerId: string, toolName: string): Promise<ToolEntitlement | null>
+  /** Returns the entitlement unlocked by a subscription, or null if its checkout hasn't been seen */
+  findBySubscription(subscriptionId: string): Promise<ToolEntitlement | null>
+  /** Creates or replaces an entitlement */
+  put(entitlement: ToolEntitlement): Promise<void>
+}
+
+const ENTITLEMENT_KEY_PREFIX = 'mcp-analytics:entitlement:'
+const SUBSCRIPTION_KEY_PREFIX = 'mcp-analytics:entitlement-subscription:'
+
+/**
+ * Entitlement store backed by Durable Object storage. Entitlements are keyed by
+ * customer and tool, with an index from subscription ID so subscription and
+ * invoice webhooks can find the tool their checkout unlocked. The storage is only
+ * shared if every writer and reader uses the same Durable Object - for agents that
+ * run one instance per session, use KVEntitlementStore.
+ */
+export class DurableObjectEntitlementStore implements EntitlementStore {
+  /**
+   * @param storage - Durable Object storage, typically `this.ctx.storage`
+   */
+  constructor(private storage: DurableObjectStorage) {}
+
+  async get(customerId: string, toolName: string): Promise<ToolEntitlement | null> {
+    return (await this.storage.get<ToolEntitlement>(entitlementKey(customerId, toolName))) || null
+  }
+
+  async findBySubscription(subscriptionId: string): Promise<ToolEntitlement | null> {
+    const ref = await this.storage.get<{ customerId: string; toolName: string }>(`${SUBSCRIPTION_KEY_PREFIX}${subscriptionId}`)
+    return ref ? this.get(ref.customerId, ref.toolName) : null
+  }
+
+  async put(entitlement: ToolEntitlement): Promise<void> {
+    const entries: Record<string, unknown> = {
+      [entitlementKey(entitlement.customerId, entitlement.toolName)]: entitlement
+    }
+    if (entitlement.subscriptionId) {
+      entries[`${SUBSCRIPTION_KEY_PREFIX}${entitlement.subscriptionId}`] = {
+        customerId: entitlement.customerId,
+        toolName: entitlement.toolName
+      }
+    }
+    await this.storage.put(entries)
+  }
+}
+
+/**
+ * Entitlement store backed by a Workers KV namespace. Use it when each MCP session
+ * runs in its own Durable Object: the webhook handler and every session's paid
+ * tools read and write the same namespace. KV is eventually consistent, so a
+ * webhook can take up to a minute to reach other locations - paid tools fall back
+ * to Stripe until it does.
+ */
+export class KVEntitlementStore implements EntitlementStore {
+  /**
+   * @param namespace - KV namespace binding, e.g. `env.MCP_ANALYTICS_KV`
+   */
+  constructor(private namespace: KVNamespace) {}
+
+  async get(customerId: string, toolName: string): Promise<ToolEntitlement | null> {
+    return this.namespace.get<ToolEntitlement>(entitlementKey(customerId, toolName), 'json')
+  }
+
+  async findBySubscription(subscriptionId: string): Promise<ToolEntitlement | null> {
+    const ref = await this.namespace.get<{ customerId: string; toolName: string }>(`${SUBSCRIPTION_KEY_PREFIX}${subscriptionId}`, 'json')
+    return ref ? this.get(ref.customerId, ref.toolName) : null
+  }
+
+  async put(entitlement: ToolEntitlement): Promise<void> {
+    const writes = [
+      this.namespace.put(entitlementKey(entitlement.customerId, entitlement.toolName), JSON.stringify(entitlement))
+    ]
+    if (entitlement.subscriptionId) {
+      writes.push(this.namespace.put(
+        `${SUBSCRIPTION_KEY_PREFIX}${entitlement.subscriptionId}`,
+        JSON.stringify({ customerId: entitlement.customerId, toolName: entitlement.toolName })
+      ))
+    }
+    await Promise.all(writes)
+  }
+}
+
+function entitlementKey(customerId: string, toolName: string): string {
+  return `${ENTITLEMENT_KEY_PREFIX}${customerId}:${toolName}`
+}
@@ -0,0 +1,148 @@
+/**
+ * Free calls a customer may make to a paid tool before payment is required
+ */
+export type FreeQuotaOptions = {
+  calls: number
+  period: 'day' | 'month' | 'lifetime' // Day and month windows reset at UTC midnight
+}
+
+/**
+ * Free calls used by a customer in the current quota window
+ */
+export type FreeQuotaUsage = {
+  window: string // e.g. '2025-06-19', '2025-06' or 'lifetime'
+  used: number
+  exhaustedRecorded?: boolean // Whether mcp.tool.free_quota_exhausted was already recorded for this window
+}
+
+/**
+ * Stores free quota usage per customer and tool
+ */
+export interface FreeQuotaStore {
+  /** Returns the last recorded usage of a customer for a tool, or null if they never used it */
+  get(customerId: string, toolName: string): Promise<FreeQuotaUsage | null>
+  /** Creates or replaces the usage of a customer for a tool */
+  put(customerId: string, toolName: string, usage: FreeQuotaUsage): Promise<void>
+}
+
+/**
+ * Result of trying to spend one free call
+ */
+export type FreeQuotaResult = {
+  allowed: boolean
+  used: number // Free calls used in the window, including this one when allowed
+  limit: number
+  period: FreeQuotaOptions['period']
+  resetsAt: string | null // ISO time the window resets, null for lifetime quotas
+  firstRefusal: boolean // True for the first refused call of a window
+}
+
+const FREE_QUOTA_KEY_PREFIX = 'mcp-analytics:free-quota:'
+
+/**
+ * Free quota store backed by Durable Object storage. Only the current window is
+ * kept per customer and tool, so day and month quotas don't accumulate keys.
+ * Counters are only as shared as the Durable Object: with one agent instance per
+ * session they are per session, and reconnecting resets them - use KVFreeQuotaStore
+ * unless every call for a customer reaches the same object.
+ */
+export class DurableObjectFreeQuotaStore implements FreeQuotaStore {
+  /**
+   * @param storage - Durable Object storage, typically `this.ctx.storage`
+   */
+  constructor(private storage: DurableObjectStorage) {}
+
+  async get(customerId: string, toolName: string): Promise<FreeQuotaUsage | null> {
+    return (await this.storage.get<FreeQuotaUsage>(freeQuotaKey(customerId, toolName))) || null
+  }
+
+  async put(customerId: string, toolName: string, usage: FreeQuotaUsage): Promise<void> {
+    await this.storage.put(freeQuotaKey(customerId, toolName), usage)
+  }
+}
+
+/**
+ * Free quota store backed by a Workers KV namespace, shared by every session so a
+ * customer's free calls are counted across reconnects. KV is eventually consistent
+ * and has no atomic increment, so concurrent calls from different locations can
+ * occasionally be counted once.
+ */
+export class KVFreeQuotaStore implements FreeQuotaStore {
+  /**
+   * @param namespace - KV namespace binding, e.g. `env.MCP_ANALYTICS_KV`
+   */
+  constructor(private namespace: KVNamespace) {}
+
+  async get(customerId: string, toolName: string): Promise<FreeQuotaUsage | null> {
+    return this.namespace.get<FreeQuotaUsage>(freeQuotaKey(customerId, toolName), 'json')
+  }
+
+  async put(customerId: string, toolName: string, usage: FreeQuotaUsage): Promise<void> {
+    await this.namespace.put(freeQuotaKey(customerId, toolName), JSON.stringify(usage))
+  }
+}
+
+/**
+ * Spends one free call if the customer has any left in the current window.
+ *
+ * @param store - Where usage is tracked
+ * @param customerId - Stripe customer ID of the caller
+ * @param toolName - The paid tool being called
+ * @param quota - Free calls allowed per period
+ * @param now - Current time in milliseconds, injectable for tests
+ * @returns Whether the call is free, and the usage after it
+ */
+export async function consumeFreeQuota(
+  store: FreeQuotaStore,
+  customerId: string,
+  toolName: string,
+  quota: FreeQuotaOptions,
+  now = Date.now()
+): Promise<FreeQuotaResult> {
+  const { window, resetsAt } = quotaWindow(quota.period, now)
+  const limit = Math.max(0, Math.floor(quota.calls))
+
+  const stored = await store.get(customerId, toolName)
+  const usage: FreeQuotaUsage = stored?.window === window ? stored : { window, used: 0 }
+  const result = { limit, period: quota.period, resetsAt }
+
+  if (usage.used < limit) {
+    const used = usage.used + 1
+    await store.put(customerId, toolName, { ...usage, used })
+    return { ...result, allowed: true, used, firstRefusal: false }
+  }
+
+  const firstRefusal = !usage.exhaustedRecorded
+  if (firstRefusal) {
+    await store.put(customerId, toolName, { ...usage, exhaustedRecorded: true })
+  }
+  return { ...result, allowed: false, used: usage.used, firstRefusal }
+}
+
+/**
+ * Identifies the UTC quota window containing a point in time.
+ */
+export function quotaWindow(period: FreeQuotaOptions['period'], now: number): { window: string; resetsAt: string | null } {
+  const date = new Date(now)
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+
+  if (period === 'day') {
+    const day = date.getUTCDate()
+    return {
+      window: date.toISOString().slice(0, 10),
+      resetsAt: new Date(Date.UTC(year, month, day + 1)).toISOString()
+    }
+  }
+  if (period === 'month') {
+    return {
+      window: date.toISOString().slice(0, 7),
+      resetsAt: new Date(Date.UTC(year, month + 1, 1)).toISOString()
+    }
+  }
+  return { window: 'lifetime', resetsAt: null }
+}
+
+function freeQuotaKey(customerId: string, toolName: string): string {
+  return `${FREE_QUOTA_KEY_PREFIX}${customerId}:${toolName}`
+}
@@ -1,5 +1,12 @@
 export { AnalyticsPaidMcpAgent } from './AnalyticsPaidMcpAgent.js'
 export { registerAnalyticsPaidTool } from './register-analytics-paid-tool.js'
+export { handleStripeWebhook } from './webhooks.js'
+export { DurableObjectEntitlementStore, KVEntitlementStore } from './entitlements.js'
+export { DurableObjectFreeQuotaStore, KVFreeQuotaStore } from './free-quota.js'
+export type { StripeWebhookOptions } from './webhooks.js'
+export type { EntitlementStore, ToolEntitlement } from './entitlements.js'
+export type { FreeQuotaOptions, FreeQuotaStore, FreeQuotaUsage } from './free-quota.js'
 export type { AnalyticsPaidToolOptions, PaymentState, PaymentProps } from './AnalyticsPaidMcpAgent.js'
+export type { BillingTiming } from './register-analytics-paid-tool.js'
 export { AnalyticsMcpAgent } from '../core/AnalyticsMcpAgent.js'
 export type { AnalyticsToolOptions } from '../analytics/register-analytics-tool.js'
\ No newline at end of file
@@ -5,10 +5,42 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import Stripe from 'stripe'
 import { AnalyticsClient } from '../core/client.js'
 import { sanitizeParameters, sanitizeResult } from '../core/utils.js'
-import type { MCPEvent } from '../core/types.js'
+import { TtlCache } from '../core/ttl-cache.js'
+import { sha256Hex } from '../core/pseudonymize.js'
+import type { EntitlementStore, ToolEntitlement } from './entitlements.js'
+import { consumeFreeQuota } from './free-quota.js'
+import type { FreeQuotaOptions, FreeQuotaResult, FreeQuotaStore } from './free-quota.js'
+import type { FreeQuotaEventFields, MCPEvent, ToolUsageNotBilledEvent } from '../core/types.js'
+import type { RedactionOptions } from '../core/redaction.js'
+import type { PiiScanOptions } from '../core/pii.js'
+import type { UserPrivacyOptions } from '../core/pseudonymize.js'
+import type { ConsentCheck } from '../analytics/consent.js'
 import type { UserInfo } from '../analytics/register-analytics-tool.js'
+import { prepareCall, queueCallEvent } from '../analytics/call-context.js'
+import { describeException, describeToolError, isToolErrorResult } from '../analytics/outcome.js'
+import {
+  createToolFreeQuotaExhaustedEvent,
+  createToolFreeQuotaUsedEvent,
+  createToolPaymentCompletedEvent,
+  createToolPaymentFailedEvent,
+  createToolPaymentRequiredEvent,
+  createToolUsageNotBilledEvent
+} from '../analytics/translator.js'
+import type { PaymentData } from '../analytics/translator.js'
+import { resolveEventMetadata } from '../analytics/metadata.js'
+import type { ToolMetadataOptions } from '../analytics/metadata.js'
+import { createParamCapture } from '../analytics/schema-capture.js'
+import type { ParamCaptureOptions } from '../analytics/schema-capture.js'
 
-export type AnalyticsPaidToolOptions = {
+/**
+ * When usage-based tools send usage to the Stripe meter:
+ * - 'before': before the tool runs, so failed calls are billed too
+ * - 'afterSuccess': after the tool succeeds; failed calls are never billed
+ * - 'always': after the tool runs, whether or not it succeeded
+ */
+export type BillingTiming = 'before' | 'afterSuccess' | 'always';
+
+export type AnalyticsPaidToolOptions = ToolMetadataOptions & ParamCaptureOptions & {
   apiKey?: string;
   serverName?: string;
   serverVersion?: string;
@@ -17,10 +49,24 @@ export type AnalyticsPaidToolOptions = {
   flushInterval?: number;
   enabled?: boolean;
   trackResults?: boolean;
+  redaction?: RedactionOptions;
+  pii?: boolean | PiiScanOptions;
+  privacy?: UserPrivacyOptions;
+  analyticsClient?: AnalyticsClient;
+  getAnalyticsClient?: () => AnalyticsClient | null; // Called on every call instead of analyticsClient, for clients recreated after registration
   getUserInfo?: () => UserInfo;
   getSessionId?: () => string | null;
+  getConsent?: ConsentCheck;
+  getCustomerId?: () => string | null | undefined; // Stripe customer ID persisted by a previous call
+  setCustomerId?: (customerId: string) => void; // Persists a newly resolved Stripe customer ID
+  entitlementCacheTtl?: number; // How long a paid entitlement is trusted without asking Stripe, in ms (default: 60000, 0 disables)
+  entitlementStore?: EntitlementStore; // Entitlements written by handleStripeWebhook(), consulted before Stripe
+  freeQuota?: FreeQuotaOptions; // Free calls per customer before payment is required
+  freeQuotaStore?: FreeQuotaStore; // Where free quota usage is tracked, required for freeQuota
   paymentReason: string;
   meterEvent?: string;
+  meterValue?: (params: any, result: CallToolResult) => number | Promise<number>; // Quantity to bill once the tool returned (default: 1 per call)
+  billingTiming?: BillingTiming; // When usage is billed (default: 'afterSuccess')
   stripeSecretKey: string;
   userEmail: string;
   checkout: Stripe.Checkout.SessionCreateParams;
@@ -41,6 +87,38 @@ function safeNumber(value: any): number | null {
   return isNaN(parsed) ? null : parsed;
 }
 
+function freeQuotaFields(usage: FreeQuotaResult): FreeQuotaEventFields {
+  return {
+    freeQuotaLimit: usage.limit,
+    freeQuotaUsed: usage.used,
+    freeQuotaRemaining: Math.max(0, usage.limit - usage.used),
+    freeQuotaPeriod: usage.period,
+    freeQuotaResetsAt: usage.resetsAt
+  };
+}
+
+/**
+ * Checks paid tool options that can't work together. Synchronous, so callers that
+ * don't await registration still see the error when the tool is declared.
+ *
+ * @param toolName - The paid tool being registered
+ * @param options - Checkout and billing options of the tool
+ * @throws Error if the checkout has no price, or meterValue is combined with billingTiming 'before'
+ */
+export function validatePaidToolOptions(
+  toolName: string,
+  options: Pick<AnalyticsPaidToolOptions, 'checkout' | 'meterValue' | 'billingTiming'>
+): void {
+  const priceId = options.checkout.line_items?.find((li) => li.price)?.price;
+  if (!priceId) {
+    throw new Error('Price ID is required for a paid MCP tool. Learn more about prices: https://docs.stripe.com/products-prices/how-products-and-prices-work')
+  }
+
+  if (options.meterValue && options.billingTiming === 'before') {
+    throw new Error(`meterValue needs the tool result, use billingTiming 'afterSuccess' or 'always' for "${toolName}"`)
+  }
+}
+
 export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
   mcpServer: McpServer,
   toolName: string,
@@ -61,13 +139,19 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
   }
 
   const { serverName: extractedServerName, serverVersion: extractedServerVersion } = getServerInfo()
+  const eventSource = {
+    serverName: extractedServerName,
+    serverVersion: extractedServerVersion,
+    environment: options.environment
+  }
 
-  let analyticsClient: AnalyticsClient | null = null
-  let isAnalyticsEnabled = false
+  let registeredClient: AnalyticsClient | null = null
 
-  if (options.apiKey) {
+  if (options.analyticsClient) {
+    registeredClient = options.analyticsClient
+  } else if (options.apiKey && !options.getAnalyticsClient) {
     try {
-      analyticsClient = new AnalyticsClient({
+      registeredClient = new AnalyticsClient({
         apiKey: options.apiKey,
         serverName: extractedServerName,
         serverVersion: extractedServerVersion,
@@ -76,16 +160,17 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
         flushInterval: options.flushInterval,
         enabled: options.enabled !== false
       })
-      isAnalyticsEnabled = true
     } catch (error) {
       console.warn('[Analytics] Failed to initialize analytics client:', error)
     }
   }
 
+  const getAnalyticsClient = (): AnalyticsClient | null =>
+    options.getAnalyticsClient ? options.getAnalyticsClient() : registeredClient
+
+  validatePaidToolOptions(toolName, options);
   const priceId = options.checkout.line_items?.find((li) => li.price)?.price;
-  if (!priceId) {
-    throw new Error('Price ID is required for a paid MCP tool. Learn more about prices: https://docs.stripe.com/products-prices/how-products-and-prices-work')
-  }
+  const billingTiming = options.billingTiming ?? 'afterSuccess';
 
   const stripe = new Stripe(options.stripeSecretKey, {
     appInfo: {
@@ -94,7 +179,32 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
     },
   });
 
+  // Resolved customer ID, also persisted via setCustomerId so later sessions skip the lookup
+  let knownCustomerId: string | null = null;
+
+  const getStoredCustomerID = (): string | null => {
+    if (knownCustomerId) return knownCustomerId;
+    try {
+      knownCustomerId = options.getCustomerId?.() || null;
+    } catch (error) {
+      console.warn('[MCP Analytics] getCustomerId failed, looking up the Stripe customer:', error);
+    }
+    return knownCustomerId;
+  };
+
+  const storeCustomerID = (customerId: string) => {
+    knownCustomerId = customerId;
+    try {
+      options.setCustomerId?.(customerId);
+    } catch (error) {
+      console.warn('[MCP Analytics] setCustomerId failed, customer ID not persisted:', error);
+    }
+  };
+
   const getCurrentCustomerID = async (): Promise<string> => {
+    const storedCustomerId = getStoredCustomerID();
+    if (storedCustomerId) return storedCustomerId;
+
     const customers = await stripe.customers.list({
       email: options.userEmail,
     });
@@ -108,6 +218,7 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
       });
       customerId = customer.id;
     }
+    storeCustomerID(customerId);
     return customerId;
   };
 
@@ -125,20 +236,16 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
     return paidSession || null;
   };
 
-  const isToolPaidFor = async (toolName: string, customerId: string) => {
-    const paidSession = await getPaymentSessionData(toolName, customerId);
-    
+  // A subscription checkout only pays for the tool while a subscription to its price is active
+  const isToolPaidFor = async (paidSession: Stripe.Checkout.Session | null, customerId: string) => {
     if (paidSession?.subscription) {
       const subs = await stripe.subscriptions.list({
         customer: customerId || '',
         status: 'active',
       });
-      const activeSub = subs.data.find((sub) =>
-        sub.items.data.find((item) => item.price.id === priceId)
+      return subs.data.some((sub) =>
+        sub.items.data.some((item) => item.price.id === priceId)
       );
-      if (activeSub) {
-        return true;
-      }
     }
 
     return !!paidSession;
@@ -204,162 +311,283 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
     }
   };
 
-  const recordUsage = async (customerId: string) => {
+  // Stripe dedupes meter events by identifier, so the same request is never billed twice
+  const recordUsage = async (customerId: string, quantity: number, identifier: string) => {
     if (!options.meterEvent) return;
     await stripe.billing.meterEvents.create({
       event_name: options.meterEvent,
+      identifier,
       payload: {
         stripe_customer_id: customerId,
-        value: '1',
+        value: String(quantity),
       },
     });
   };
 
-  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
-  const callback = async (args: any, extra: any): Promise<CallToolResult> => {
-    const startTime = performance.now()
-    
-    let sessionId: string | null = null
-    try {
-      if (options.getSessionId) {
-        sessionId = options.getSessionId()
+  // Bills a call once the tool has returned: the meterValue quantity, or 1 without meterValue
+  // or when the tool threw. Billing problems never turn a call into a failure - they are
+  // logged and reported as the reason the usage was not billed.
+  const billUsage = async (
+    customerId: string,
+    args: any,
+    result: CallToolResult | undefined,
+    identifier: string
+  ): Promise<{ billedQuantity?: number; notBilledReason?: ToolUsageNotBilledEvent['usageNotBilledReason'] }> => {
+    let quantity = 1;
+    if (options.meterValue && result) {
+      try {
+        quantity = await options.meterValue(args, result);
+      } catch (error) {
+        console.warn(`[MCP Analytics] meterValue failed for "${toolName}", usage not billed:`, error);
+        return { notBilledReason: 'meter_value_failed' };
       }
-    } catch (error) {
-      // Silent fallback
-    }
-    
-    if (!sessionId && extra?.sessionId) {
-      sessionId = extra.sessionId
+      if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity < 0) {
+        console.warn(`[MCP Analytics] meterValue returned an invalid quantity for "${toolName}", usage not billed:`, quantity);
+        return { notBilledReason: 'meter_value_failed' };
+      }
+      if (quantity === 0) return { billedQuantity: 0 };
     }
-    
-    const mcpData = {
-      sessionId,
-      requestId: extra?.requestId || null,
+
+    try {
+      await recordUsage(customerId, quantity, identifier);
+      return { billedQuantity: quantity };
+    } catch (error) {
+      console.warn(`[MCP Analytics] Failed to record usage for "${toolName}":`, error);
+      return { notBilledReason: 'billing_failed' };
     }
+  };
 
-    let userInfo: UserInfo = {}
+  // Entitlements reported by Stripe webhooks, or null when none has been stored for the customer
+  const getStoredEntitlement = async (customerId: string): Promise<ToolEntitlement | null> => {
+    if (!options.entitlementStore) return null;
     try {
-      if (options.getUserInfo) {
-        userInfo = options.getUserInfo()
-      }
+      return await options.entitlementStore.get(customerId, toolName);
     } catch (error) {
-      // Silent fallback
+      console.warn('[MCP Analytics] Entitlement store lookup failed, asking Stripe:', error);
+      return null;
+    }
+  };
+
+  // Paid entitlements are trusted for entitlementCacheTtl so repeat calls skip Stripe.
+  // Unpaid results are never cached, so a completed checkout takes effect immediately.
+  const entitlementCache = new TtlCache<PaymentData>(options.entitlementCacheTtl ?? 60000);
+
+  const checkEntitlement = async (customerId: string): Promise<{ paidForTool: boolean; payment: PaymentData }> => {
+    const cachedPayment = entitlementCache.get(customerId);
+    if (cachedPayment) {
+      return { paidForTool: true, payment: cachedPayment };
+    }
+
+    // An active webhook-maintained entitlement needs no checkout session scan. Inactive
+    // ones are rechecked with Stripe, in case a newer payment's webhook hasn't arrived yet
+    // - but a checkout older than the webhook that revoked access no longer counts
+    const stored = await getStoredEntitlement(customerId);
+    if (stored?.active) {
+      const payment: PaymentData = {
+        paymentSessionId: stored.checkoutSessionId,
+        subscriptionId: stored.subscriptionId,
+        paymentStatus: 'paid'
+      };
+      entitlementCache.set(customerId, payment);
+      return { paidForTool: true, payment };
+    }
+
+    const paymentSession = await getPaymentSessionData(toolName, customerId);
+    const revokedSincePayment = !!stored && !!paymentSession && stored.updatedAt >= paymentSession.created * 1000;
+    const paidForTool = !revokedSincePayment && await isToolPaidFor(paymentSession, customerId);
+    const payment: PaymentData = {
+      paymentAmount: safeNumber(paymentSession?.amount_total),
+      paymentCurrency: safeString(paymentSession?.currency),
+      paymentDate: paymentSession?.created ? new Date(paymentSession.created * 1000).toISOString() : null,
+      paymentSessionId: safeString(paymentSession?.id),
+      paymentStatus: safeString(paymentSession?.payment_status),
+      subscriptionId: safeString(paymentSession?.subscription)
+    };
+    if (paidForTool) {
+      entitlementCache.set(customerId, payment);
     }
+    return { paidForTool, payment };
+  };
+
+  if (options.freeQuota && !options.freeQuotaStore) {
+    console.warn(`[MCP Analytics] freeQuota for "${toolName}" needs a freeQuotaStore, every call requires payment`);
+  }
 
-    // Extract MCP client version information if available
-    let clientVersion: { name: string; version: string } | null = null
+  // Spends one free call, or returns null when there is no free quota (or it can't be read)
+  const spendFreeQuota = async (customerId: string): Promise<FreeQuotaResult | null> => {
+    if (!options.freeQuota || !options.freeQuotaStore) return null;
     try {
-      const serverAny = mcpServer as any
-      if (serverAny.server?._clientVersion) {
-        clientVersion = serverAny.server._clientVersion
-      }
+      return await consumeFreeQuota(options.freeQuotaStore, customerId, toolName, options.freeQuota);
     } catch (error) {
-      // Silent fallback
+      console.warn('[MCP Analytics] Free quota store failed, requiring payment:', error);
+      return null;
     }
+  };
+
+  // Built from the session and request so a retried request reuses its identifier.
+  // Calls without both get a random one; long identifiers are hashed to fit Stripe's limit
+  const usageIdentifier = async (sessionId: string | null, requestId: string | number | null): Promise<string> => {
+    if (!sessionId || requestId === null) return crypto.randomUUID();
+    const identifier = `${sessionId}:${requestId}:${toolName}`;
+    return identifier.length <= 100 ? identifier : sha256Hex(identifier);
+  };
+
+  // Decide from the schema which argument fields are recorded, and how
+  const paramCapture = createParamCapture(paramsSchema, options)
+
+  // biome-ignore lint/suspicious/noExplicitAny: <explanation>
+  const callback = async (args: any, extra: any): Promise<CallToolResult> => {
+    // Collect session, request, trace, user and client metadata and sanitize parameters -
+    // if this fails the call still runs and is billed, it just isn't recorded
+    const prepared = await prepareCall(mcpServer, extra, options, async piiScanner =>
+      sanitizeParameters(await paramCapture.prepare(args || {}), paramCapture.redaction, piiScanner)
+    );
+    const analyticsClient = prepared ? getAnalyticsClient() : null;
+
+    // Times the payment check; reset right before the tool runs so tool durations exclude it
+    let startTime = performance.now()
+
+    // Kept outside the try block so failures are recorded with the customer already resolved
+    let resolvedCustomerId: string | null = null;
+    let freeQuotaUsage: FreeQuotaResult | null = null;
+    // Set while the tool runs if its usage is billed once it returns
+    let pendingUsage: { customerId: string; usageId: string } | null = null;
+
+    // Analytics failures, such as an event rejected by validation, never reach the caller
+    const queuePaymentEvent = (event: MCPEvent) => {
+      if (!analyticsClient || !prepared) return;
+      try {
+        queueCallEvent(analyticsClient, event, prepared.consent);
+      } catch (analyticsError) {
+        console.warn('[MCP Analytics] Failed to queue payment event:', analyticsError);
+      }
+    };
 
-    const sanitizedParams = sanitizeParameters(args || {})
+    const recordUsageNotBilled = (
+      customerId: string,
+      paymentType: string,
+      reason: ToolUsageNotBilledEvent['usageNotBilledReason']
+    ) => {
+      if (!prepared) return;
+      const { mcpData, userInfo, clientVersion } = prepared;
+      queuePaymentEvent(createToolUsageNotBilledEvent(
+        eventSource,
+        toolName,
+        { billingTiming, usageNotBilledReason: reason },
+        { customerId, paymentType, priceId: safeString(priceId) },
+        { mcpData, userInfo, clientVersion }
+      ))
+    };
 
     try {
       const customerId = await getCurrentCustomerID();
-      const paidForTool = await isToolPaidFor(toolName, customerId);
+      resolvedCustomerId = customerId;
+      const { paidForTool, payment: entitlementPayment } = await checkEntitlement(customerId);
       
       // ✅ FIXED: Define paymentType in proper scope
       const paymentType = options.meterEvent ? 'usageBased' : 'oneTimeSubscription';
+
+      // Unpaid calls run for free while the customer has free quota left
+      const quota = paidForTool ? null : await spendFreeQuota(customerId);
+      if (quota?.allowed) {
+        freeQuotaUsage = quota;
+      }
       
-      if (!paidForTool) {
+      if (!paidForTool && !freeQuotaUsage) {
         const endTime = performance.now()
         const duration = Math.max(1, Math.round(endTime - startTime))
         
-        if (isAnalyticsEnabled && analyticsClient) {
-          const event: MCPEvent = {
-            eventType: 'mcp.tool.payment_required',
-            serverName: extractedServerName,
-            timestamp: Date.now(),
-            serverVersion: extractedServerVersion,
-            environment: options.environment,
-            toolName,
-            parameters: sanitizedParams,
-            duration,
-            success: false,
-            clientVersion,
-            // ✅ FIXED: Proper null handling for payment context
-            customerId: customerId,
-            paymentType: paymentType,
-            priceId: safeString(priceId),
-            paymentStatus: 'required',
-            paymentAmount: null,
-            paymentCurrency: null,
-            paymentDate: null,
-            paymentSessionId: null,
-            subscriptionId: null,
-            ...mcpData,
-            ...userInfo
+        if (analyticsClient && prepared) {
+          const { mcpData, userInfo, clientVersion, piiScanner, parameters: sanitizedParams } = prepared
+          if (quota?.firstRefusal) {
+            queuePaymentEvent(createToolFreeQuotaExhaustedEvent(
+              eventSource,
+              toolName,
+              freeQuotaFields(quota),
+              { customerId, paymentType, priceId: safeString(priceId) },
+              { mcpData, userInfo, clientVersion }
+            ))
           }
+
+          const event = createToolPaymentRequiredEvent(
+            eventSource,
+            { toolName, parameters: sanitizedParams, duration },
+            { customerId, paymentType, priceId: safeString(priceId) },
+            { mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+          )
           
-          analyticsClient.queueEvent(event)
+          queuePaymentEvent(event)
         }
         
         const checkoutResult = await createCheckoutSession(paymentType, customerId);
         if (checkoutResult) return checkoutResult;
       }
       
-      if (paymentType === 'usageBased') {
-        await recordUsage(customerId);
-      }
-      
-      // ✅ FIXED: Get payment session data for analytics with proper error handling
-      let paymentSession: Stripe.Checkout.Session | null = null;
-      try {
-        paymentSession = await getPaymentSessionData(toolName, customerId);
-      } catch (error) {
-        console.warn('Failed to get payment session data for analytics:', error);
+      // Free calls are never metered
+      const meterUsage = paymentType === 'usageBased' && !freeQuotaUsage;
+      const usageId = await usageIdentifier(prepared?.mcpData.sessionId ?? null, prepared?.mcpData.requestId ?? null);
+      let billedQuantity: number | undefined;
+      if (meterUsage && billingTiming === 'before') {
+        await recordUsage(customerId, 1, usageId);
+        billedQuantity = 1;
+      } else if (meterUsage) {
+        pendingUsage = { customerId, usageId };
       }
       
       // Execute tool and track results
+      startTime = performance.now()
       // @ts-ignore: The typescript compiler complains this is an infinitely deep type
       const result = await paidCallback(args, extra)
       const endTime = performance.now()
       const duration = Math.max(1, Math.round(endTime - startTime))
 
-      if (isAnalyticsEnabled && analyticsClient) {
+      if (pendingUsage) {
+        pendingUsage = null;
+        const billing = billingTiming === 'afterSuccess' && isToolErrorResult(result)
+          ? { notBilledReason: 'tool_failed' as const }
+          : await billUsage(customerId, args, result, usageId);
+        billedQuantity = billing.billedQuantity;
+        if (billing.notBilledReason) {
+          recordUsageNotBilled(customerId, paymentType, billing.notBilledReason);
+        }
+      }
+
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, piiScanner, parameters: sanitizedParams } = prepared
+
         // Sanitize result if tracking is enabled
         let sanitizedResult: any = undefined;
         if (options.trackResults !== false) {
           try {
-            sanitizedResult = sanitizeResult(result);
+            sanitizedResult = sanitizeResult(result, piiScanner);
           } catch (sanitizeError) {
             console.warn('[MCP Analytics] Failed to sanitize result, excluding from event:', sanitizeError);
             sanitizedResult = { _sanitizationFailed: true };
           }
         }
 
-        const event: MCPEvent = {
-          eventType: 'mcp.tool.payment_completed',
-          serverName: extractedServerName,
-          timestamp: Date.now(),
-          serverVersion: extractedServerVersion,
-          environment: options.environment,
-          toolName,
-          parameters: sanitizedParams,
-          result: sanitizedResult,
-          duration,
-          success: true,
-          clientVersion,
-          // ✅ FIXED: Safe conversion of all payment data
-          customerId: customerId,
-          paymentAmount: safeNumber(paymentSession?.amount_total),
-          paymentCurrency: safeString(paymentSession?.currency),
-          paymentDate: paymentSession ? new Date(paymentSession.created * 1000).toISOString() : null,
-          paymentSessionId: safeString(paymentSession?.id),
-          paymentType: paymentType,
+        // Results with isError: true are tool-reported failures, not completions
+        const isToolError = isToolErrorResult(result)
+
+        const customFields = await resolveEventMetadata(options, args, result, extra)
+
+        const call = { toolName, parameters: sanitizedParams, result: sanitizedResult, duration }
+        const payment = {
+          ...entitlementPayment,
+          customerId,
+          paymentType,
           priceId: safeString(priceId),
-          paymentStatus: safeString(paymentSession?.payment_status),
-          subscriptionId: safeString(paymentSession?.subscription),
-          ...mcpData,
-          ...userInfo
+          billedQuantity
         }
+        const context = { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        const failure = isToolError ? describeToolError(result) : undefined
+        const event = freeQuotaUsage
+          ? createToolFreeQuotaUsedEvent(eventSource, call, freeQuotaFields(freeQuotaUsage), payment, context, failure)
+          : failure
+            ? createToolPaymentFailedEvent(eventSource, call, failure, payment, context)
+            : createToolPaymentCompletedEvent(eventSource, call, payment, context)
         
-        analyticsClient.queueEvent(event)
+        queuePaymentEvent(event)
       }
       
       return result
@@ -370,44 +598,31 @@ export async function registerAnalyticsPaidTool<Args extends ZodRawShape>(
       
       // ✅ FIXED: Define paymentType for error case
       const paymentType = options.meterEvent ? 'usageBased' : 'oneTimeSubscription';
-      
-      if (isAnalyticsEnabled && analyticsClient) {
-        // ✅ FIXED: Safe customer ID retrieval for error cases
-        let errorCustomerId: string | null = null;
-        try {
-          errorCustomerId = await getCurrentCustomerID();
-        } catch (customerError) {
-          console.warn('Failed to get customer ID for error analytics:', customerError);
-        }
 
-        const event: MCPEvent = {
-          eventType: 'mcp.tool.payment_failed',
-          serverName: extractedServerName,
-          timestamp: Date.now(),
-          serverVersion: extractedServerVersion,
-          environment: options.environment,
-          toolName,
-          parameters: sanitizedParams,
-          duration,
-          success: false,
-          errorType: (error as Error).constructor.name,
-          errorMessage: (error as Error).message,
-          clientVersion,
-          // ✅ FIXED: Safe payment context for failures
-          customerId: errorCustomerId,
-          paymentType: paymentType,
-          priceId: safeString(priceId),
-          paymentAmount: null,
-          paymentCurrency: null,
-          paymentDate: null,
-          paymentSessionId: null,
-          paymentStatus: null,
-          subscriptionId: null,
-          ...mcpData,
-          ...userInfo
+      // The tool threw: bill it only if every call is billed
+      if (pendingUsage) {
+        const { customerId, usageId } = pendingUsage;
+        const billing = billingTiming === 'always'
+          ? await billUsage(customerId, args, undefined, usageId)
+          : { notBilledReason: 'tool_failed' as const };
+        if (billing.notBilledReason) {
+          recordUsageNotBilled(customerId, paymentType, billing.notBilledReason);
         }
+      }
+      
+      if (analyticsClient && prepared) {
+        const { mcpData, userInfo, clientVersion, piiScanner, parameters: sanitizedParams } = prepared
+        const customFields = await resolveEventMetadata(options, args, undefined, extra)
+
+        const call = { toolName, parameters: sanitizedParams, duration }
+        const payment = { customerId: resolvedCustomerId, paymentType, priceId: safeString(priceId) }
+        const context = { customFields, mcpData, userInfo, clientVersion, piiDetected: piiScanner?.getDetected() }
+        const failure = describeException(error, extra)
+        const event = freeQuotaUsage
+          ? createToolFreeQuotaUsedEvent(eventSource, call, freeQuotaFields(freeQuotaUsage), payment, context, failure)
+          : createToolPaymentFailedEvent(eventSource, call, failure, payment, context)
         
-        analyticsClient.queueEvent(event)
+        queuePaymentEvent(event)
       }
       
       throw error
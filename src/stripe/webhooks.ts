@@ -0,0 +1,262 @@
+import Stripe from 'stripe'
+import { AnalyticsClient } from '../core/client.js'
+import { EVENT_TYPES } from '../core/types.js'
+import type { PaymentWebhookEvent } from '../core/types.js'
+import { createPaymentWebhookEvent } from '../analytics/translator.js'
+import type { EventSource, PaymentData } from '../analytics/translator.js'
+import type { EntitlementStore, ToolEntitlement } from './entitlements.js'
+
+/**
+ * Configuration for handleStripeWebhook()
+ */
+export type StripeWebhookOptions = {
+  stripeSecretKey: string
+  webhookSecret: string // Signing secret of the webhook endpoint (whsec_...)
+  store: EntitlementStore
+  analyticsClient?: AnalyticsClient | null // Records an mcp.payment.* event per processed webhook
+  serverName?: string
+  serverVersion?: string
+  environment?: string
+}
+
+// Subscription statuses that keep a paid tool unlocked
+const ACTIVE_SUBSCRIPTION_STATUSES: ReadonlySet<string> = new Set(['active', 'trialing'])
+
+/**
+ * Outcome of applying a Stripe event: the entitlement to store (if any) and the
+ * analytics event to record
+ */
+type WebhookUpdate = {
+  eventType: PaymentWebhookEvent['eventType']
+  entitlement: ToolEntitlement | null
+  toolName?: string
+  payment: PaymentData
+}
+
+/**
+ * Handles a Stripe webhook request. Verifies the signature, updates tool
+ * entitlements for `checkout.session.completed`, `customer.subscription.updated`,
+ * `customer.subscription.deleted` and `invoice.paid`, and records an `mcp.payment.*`
+ * analytics event for each. Other event types are acknowledged and ignored.
+ *
+ * @param request - The incoming webhook request (raw body, `stripe-signature` header)
+ * @param options - Stripe secrets, entitlement store and analytics configuration
+ * @returns 200 once processed, 400 for invalid signatures, 500 if the store failed (Stripe retries)
+ */
+export async function handleStripeWebhook(request: Request, options: StripeWebhookOptions): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const signature = request.headers.get('stripe-signature')
+  if (!signature) {
+    return jsonResponse({ error: 'Missing stripe-signature header' }, 400)
+  }
+
+  const stripe = new Stripe(options.stripeSecretKey, {
+    appInfo: {
+      name: 'mcp-analytics-paid-tools',
+      version: '1.0.0',
+    },
+  })
+
+  let event: Stripe.Event
+  try {
+    const body = await request.text()
+    event = await stripe.webhooks.constructEventAsync(
+      body,
+      signature,
+      options.webhookSecret,
+      undefined,
+      Stripe.createSubtleCryptoProvider()
+    )
+  } catch (error) {
+    console.warn('[MCP Analytics] Rejected Stripe webhook with invalid signature:', error)
+    return jsonResponse({ error: 'Invalid signature' }, 400)
+  }
+
+  let update: WebhookUpdate | null
+  try {
+    update = await applyStripeEvent(event, options.store)
+    if (update?.entitlement) {
+      await options.store.put(update.entitlement)
+    }
+  } catch (error) {
+    console.error('[MCP Analytics] Failed to process Stripe webhook:', event.type, error)
+    return jsonResponse({ error: 'Failed to process webhook' }, 500)
+  }
+
+  if (update && options.analyticsClient) {
+    try {
+      const source: EventSource = {
+        serverName: options.serverName || 'MCP Server',
+        serverVersion: options.serverVersion,
+        environment: options.environment
+      }
+      options.analyticsClient.queueEvent(createPaymentWebhookEvent(
+        source,
+        update.eventType,
+        {
+          stripeEventId: event.id,
+          toolName: update.toolName,
+          entitlementActive: update.entitlement?.active
+        },
+        update.payment
+      ))
+    } catch (analyticsError) {
+      console.warn('[MCP Analytics] Failed to queue payment webhook event:', analyticsError)
+    }
+  }
+
+  return jsonResponse({ received: true, handled: !!update })
+}
+
+/**
+ * Computes the entitlement change for a Stripe event. Events older than the stored
+ * entitlement are recorded but don't change it, since Stripe doesn't guarantee ordering.
+ *
+ * @returns The update to apply, or null for event types that aren't handled
+ */
+async function applyStripeEvent(event: Stripe.Event, store: EntitlementStore): Promise<WebhookUpdate | null> {
+  const updatedAt = event.created * 1000
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object
+      const customerId = stripeId(session.customer)
+      const subscriptionId = stripeId(session.subscription)
+      const toolName = session.metadata?.toolName
+      const payment: PaymentData = {
+        customerId,
+        subscriptionId,
+        paymentAmount: session.amount_total,
+        paymentCurrency: session.currency,
+        paymentDate: new Date(session.created * 1000).toISOString(),
+        paymentSessionId: session.id,
+        paymentStatus: session.payment_status
+      }
+      if (!customerId || !toolName) {
+        return { eventType: EVENT_TYPES.PAYMENT_CHECKOUT_COMPLETED, entitlement: null, toolName, payment }
+      }
+
+      const current = await store.get(customerId, toolName)
+      return {
+        eventType: EVENT_TYPES.PAYMENT_CHECKOUT_COMPLETED,
+        entitlement: isStale(current, updatedAt) ? null : {
+          ...current,
+          customerId,
+          toolName,
+          active: session.payment_status === 'paid' || session.payment_status === 'no_payment_required',
+          checkoutSessionId: session.id,
+          subscriptionId,
+          updatedAt
+        },
+        toolName,
+        payment
+      }
+    }
+
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object
+      const deleted = event.type === 'customer.subscription.deleted'
+      const customerId = stripeId(subscription.customer)
+      const current = await findEntitlement(store, subscription.id, customerId, subscription.metadata?.toolName)
+      const payment: PaymentData = {
+        customerId,
+        subscriptionId: subscription.id,
+        priceId: subscription.items?.data[0]?.price?.id,
+        paymentStatus: subscription.status
+      }
+      const eventType = deleted
+        ? EVENT_TYPES.PAYMENT_SUBSCRIPTION_DELETED
+        : EVENT_TYPES.PAYMENT_SUBSCRIPTION_UPDATED
+      if (!current) {
+        return { eventType, entitlement: null, toolName: subscription.metadata?.toolName, payment }
+      }
+
+      return {
+        eventType,
+        entitlement: isStale(current, updatedAt) ? null : {
+          ...current,
+          active: !deleted && ACTIVE_SUBSCRIPTION_STATUSES.has(subscription.status),
+          subscriptionId: subscription.id,
+          subscriptionStatus: subscription.status,
+          priceId: payment.priceId ?? current.priceId,
+          updatedAt
+        },
+        toolName: current.toolName,
+        payment
+      }
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object
+      const customerId = stripeId(invoice.customer)
+      const subscriptionId = stripeId(invoice.subscription)
+      const current = subscriptionId
+        ? await findEntitlement(store, subscriptionId, customerId, invoice.subscription_details?.metadata?.toolName)
+        : null
+      const payment: PaymentData = {
+        customerId,
+        subscriptionId,
+        paymentAmount: invoice.amount_paid,
+        paymentCurrency: invoice.currency,
+        paymentDate: new Date((invoice.status_transitions?.paid_at ?? invoice.created) * 1000).toISOString(),
+        paymentStatus: 'paid'
+      }
+      if (!current) {
+        return { eventType: EVENT_TYPES.PAYMENT_INVOICE_PAID, entitlement: null, payment }
+      }
+
+      return {
+        eventType: EVENT_TYPES.PAYMENT_INVOICE_PAID,
+        entitlement: isStale(current, updatedAt) ? null : { ...current, active: true, updatedAt },
+        toolName: current.toolName,
+        payment
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Finds the entitlement a subscription unlocked, via the subscription index or,
+ * when the checkout webhook hasn't arrived yet, the tool name in Stripe metadata.
+ */
+async function findEntitlement(
+  store: EntitlementStore,
+  subscriptionId: string,
+  customerId: string | null,
+  toolName?: string
+): Promise<ToolEntitlement | null> {
+  const indexed = await store.findBySubscription(subscriptionId)
+  if (indexed) return indexed
+  if (!customerId || !toolName) return null
+
+  return (await store.get(customerId, toolName)) || {
+    customerId,
+    toolName,
+    active: false,
+    subscriptionId,
+    updatedAt: 0
+  }
+}
+
+function isStale(current: ToolEntitlement | null, updatedAt: number): boolean {
+  return !!current && current.updatedAt > updatedAt
+}
+
+function stripeId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
@@ -0,0 +1,153 @@
+import type { MCPEvent } from '../core/types.js'
+import { EventSink, postJson } from '../core/sinks.js'
+import { randomHex } from '../core/trace-context.js'
+
+/**
+ * OTLP attribute value (subset of the OTLP/JSON AnyValue encoding)
+ */
+type OtlpAttribute = {
+  key: string
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean }
+}
+
+type OtlpSpan = {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: OtlpAttribute[]
+  status: { code: number; message?: string }
+}
+
+// OTLP enum values
+const SPAN_KIND_SERVER = 2
+const STATUS_CODE_UNSET = 0
+const STATUS_CODE_OK = 1
+const STATUS_CODE_ERROR = 2
+
+export type OtlpTraceSinkOptions = {
+  endpoint: string                                          // Full OTLP/HTTP traces URL, e.g. https://collector:4318/v1/traces
+  headers?: Record<string, string>                          // e.g. authentication headers for your collector
+  serviceName?: string                                      // Defaults to the event's serverName
+  resourceAttributes?: Record<string, string | number | boolean>
+}
+
+/**
+ * Exports tool executions as OpenTelemetry spans using OTLP/HTTP JSON.
+ * Each tool event with a duration becomes one SERVER span carrying MCP attributes
+ * (tool name, session, request id, client name/version, payment status); other
+ * events are ignored. Combine with FanOutSink to keep sending to the analytics API.
+ */
+export class OtlpTraceSink implements EventSink {
+  constructor(private options: OtlpTraceSinkOptions) {}
+
+  async send(events: MCPEvent[]): Promise<void> {
+    const spansByService = new Map<string, OtlpSpan[]>()
+
+    for (const event of events) {
+      const span = eventToSpan(event)
+      if (!span) continue
+
+      const serviceName = this.options.serviceName || event.serverName || 'MCP Server'
+      const spans = spansByService.get(serviceName) || []
+      spans.push(span)
+      spansByService.set(serviceName, spans)
+    }
+
+    if (spansByService.size === 0) return
+
+    const resourceSpans = Array.from(spansByService.entries()).map(([serviceName, spans]) => ({
+      resource: {
+        attributes: toAttributes({
+          'service.name': serviceName,
+          ...this.options.resourceAttributes,
+        }),
+      },
+      scopeSpans: [{
+        scope: { name: 'mcp-analytics' },
+        spans,
+      }],
+    }))
+
+    await postJson(this.options.endpoint, { resourceSpans }, this.options.headers)
+  }
+}
+
+/**
+ * Converts a tool execution event into an OTLP span.
+ * 
+ * @returns The span, or null if the event doesn't describe a timed tool call
+ */
+export function eventToSpan(event: MCPEvent): OtlpSpan | null {
+  if (!event.toolName || typeof event.duration !== 'number') return null
+
+  const endTime = Math.round(event.timestamp)
+  const startTime = endTime - Math.round(event.duration)
+
+  const attributes = toAttributes({
+    'mcp.method.name': 'tools/call',
+    'mcp.tool.name': event.toolName,
+    'mcp.event.type': event.eventType,
+    'mcp.server.name': event.serverName,
+    'mcp.server.version': event.serverVersion,
+    'mcp.session.id': event.sessionId,
+    'mcp.request.id': event.requestId,
+    'mcp.client.name': event.clientVersion?.name,
+    'mcp.client.version': event.clientVersion?.version,
+    'mcp.tool.success': event.success,
+    'mcp.payment.status': event.paymentStatus,
+    'mcp.payment.type': event.paymentType,
+    'deployment.environment': event.environment,
+    'error.type': event.errorType,
+  })
+
+  let status: OtlpSpan['status'] = { code: STATUS_CODE_UNSET }
+  if (event.success === true) {
+    status = { code: STATUS_CODE_OK }
+  } else if (event.errorType || event.errorMessage) {
+    status = { code: STATUS_CODE_ERROR, message: event.errorMessage }
+  }
+
+  // Reuse the tool call's trace context so spans join the caller's trace
+  return {
+    traceId: event.traceId || randomHex(16),
+    spanId: event.spanId || randomHex(8),
+    ...(event.parentSpanId ? { parentSpanId: event.parentSpanId } : {}),
+    name: `tools/call ${event.toolName}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: toUnixNano(startTime),
+    endTimeUnixNano: toUnixNano(endTime),
+    attributes,
+    status,
+  }
+}
+
+/**
+ * Converts a flat record into OTLP attributes, skipping null and undefined values.
+ */
+function toAttributes(values: Record<string, unknown>): OtlpAttribute[] {
+  const attributes: OtlpAttribute[] = []
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || value === undefined) continue
+
+    if (typeof value === 'boolean') {
+      attributes.push({ key, value: { boolValue: value } })
+    } else if (typeof value === 'number') {
+      attributes.push({
+        key,
+        value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value },
+      })
+    } else {
+      attributes.push({ key, value: { stringValue: String(value) } })
+    }
+  }
+  return attributes
+}
+
+// Milliseconds to a nanosecond string - OTLP/JSON encodes 64-bit integers as strings
+function toUnixNano(milliseconds: number): string {
+  return (BigInt(milliseconds) * 1000000n).toString()
+}
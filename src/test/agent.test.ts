@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+// Mock the Cloudflare runtime modules the agent depends on
+vi.mock('cloudflare:workers', () => ({ env: {} }));
+vi.mock('agents/mcp', () => ({
+  McpAgent: class {
+    ctx: any;
+    env: any;
+    props: any;
+    state: any;
+    constructor(ctx: any, env: any) {
+      this.ctx = ctx;
+      this.env = env;
+    }
+    setState(state: any) {
+      this.state = state;
+    }
+    async webSocketClose() {}
+  },
+}));
+
+// Mock AnalyticsClient
+const mockQueueEvent = vi.fn();
+const mockFlush = vi.fn();
+const mockDestroy = vi.fn();
+
+vi.mock('../core/client.js', () => ({
+  AnalyticsClient: vi.fn().mockImplementation(() => ({
+    queueEvent: mockQueueEvent,
+    flush: mockFlush,
+    destroy: mockDestroy,
+  })),
+}));
+
+import { AnalyticsMcpAgent } from '../core/AnalyticsMcpAgent';
+import { AnalyticsPaidMcpAgent } from '../stripe/AnalyticsPaidMcpAgent';
+import { AnalyticsClient } from '../core/client.js';
+import { ValidationError } from '../core/errors';
+
+class TestAgent extends AnalyticsMcpAgent<unknown, unknown, Record<string, unknown>> {
+  server: any = {
+    tool: vi.fn(),
+    server: {
+      _serverInfo: { name: 'Agent Test Server', version: '2.1.0' },
+      _clientVersion: { name: 'test-mcp-client', version: '1.0.0' },
+    },
+  };
+
+  async init() {}
+}
+
+class TestPaidAgent extends AnalyticsPaidMcpAgent {
+  server: any = { tool: vi.fn(), server: {} };
+
+  async init() {}
+}
+
+const createAgent = (env: Record<string, unknown> = {}) => {
+  const ctx = { id: { toString: () => 'do_session_123' }, storage: {} };
+  const agent = new (TestAgent as any)(ctx, env) as TestAgent;
+  agent.props = { userId: 'user_42', email: 'user@example.com' };
+  return agent;
+};
+
+describe('🧪 ANALYTICS AGENT TESTS', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.MCP_ANALYTICS_API_KEY = 'test-analytics-key';
+  });
+
+  afterEach(() => {
+    delete process.env.MCP_ANALYTICS_API_KEY;
+  });
+
+  it('🤝 SHARED CLIENT TEST: All tools on an agent share one client', async () => {
+    const agent = createAgent();
+
+    agent.analyticsTool('first', 'First tool', { a: z.string() }, async () => ({ content: [] }));
+    agent.analyticsTool('second', 'Second tool', { b: z.string() }, async () => ({ content: [] }));
+
+    expect(AnalyticsClient).toHaveBeenCalledTimes(1);
+    expect(agent.server.tool).toHaveBeenCalledTimes(2);
+
+    await agent.webSocketClose({} as WebSocket, 1000, 'done', true);
+    expect(mockFlush).toHaveBeenCalledTimes(1);
+    expect(mockDestroy).not.toHaveBeenCalled();
+  });
+
+  it('🔌 SOCKET CLOSE TEST: Tools keep recording events after a request closes its socket', async () => {
+    const agent = createAgent();
+    agent.analyticsTool('echo', 'Echo', { text: z.string() }, async () => ({ content: [] }));
+    const echo = agent.server.tool.mock.calls[0][3];
+    const extra = { signal: new AbortController().signal, requestId: 1 };
+
+    // Streamable HTTP closes the socket after every request; init() doesn't run again
+    await echo({ text: 'first' }, extra);
+    await agent.webSocketClose({} as WebSocket, 1000, 'done', true);
+    await echo({ text: 'second' }, { ...extra, requestId: 2 });
+
+    expect(mockQueueEvent).toHaveBeenCalledTimes(2);
+    expect(mockQueueEvent.mock.calls[1][0]).toMatchObject({ eventType: 'mcp.tool.completed', toolName: 'echo' });
+    expect(AnalyticsClient).toHaveBeenCalledTimes(1);
+    expect(mockDestroy).not.toHaveBeenCalled();
+  });
+
+  it('📣 CUSTOM EVENT TEST: trackEvent enriches and queues business events', async () => {
+    const agent = createAgent();
+
+    agent.trackEvent('report_exported', { format: 'pdf', pages: 12 });
+    await vi.waitFor(() => expect(mockQueueEvent).toHaveBeenCalledTimes(1));
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.eventType).toBe('mcp.custom');
+    expect(event.eventName).toBe('report_exported');
+    expect(event.properties).toEqual({ format: 'pdf', pages: 12 });
+    expect(event.serverName).toBe('Agent Test Server');
+    expect(event.serverVersion).toBe('2.1.0');
+    expect(event.sessionId).toBe('do_session_123');
+    expect(event.userId).toBe('user_42');
+    expect(event.email).toBe('user@example.com');
+    expect(event.clientVersion).toEqual({ name: 'test-mcp-client', version: '1.0.0' });
+  });
+
+  it('🚫 CUSTOM EVENT VALIDATION TEST: Rejects non-serializable properties', () => {
+    const agent = createAgent();
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => agent.trackEvent('', {})).toThrow(ValidationError);
+    expect(() => agent.trackEvent('quota_warning', { callback: () => {} })).toThrow('properties.callback');
+    expect(() => agent.trackEvent('quota_warning', { seen: new Set([1]) })).toThrow(ValidationError);
+    expect(() => agent.trackEvent('quota_warning', { ratio: NaN })).toThrow('not a finite number');
+    expect(() => agent.trackEvent('quota_warning', circular)).toThrow('circular reference');
+    expect(mockQueueEvent).not.toHaveBeenCalled();
+  });
+
+  it('🕶️ PRIVACY TEST: Agent-wide privacy mode hashes identifiers with the env secret', async () => {
+    process.env.MCP_ANALYTICS_HASH_SECRET = 'env-secret';
+    const agent = createAgent();
+    (agent as any).analyticsPrivacy = { email: 'drop' };
+
+    agent.trackEvent('report_exported', { format: 'pdf' });
+    await vi.waitFor(() => expect(mockQueueEvent).toHaveBeenCalledTimes(1));
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.eventName).toBe('report_exported');
+    expect(event.userId).toMatch(/^[0-9a-f]{64}$/);
+    expect(event.userId).not.toBe('user_42');
+    expect(event.email).toBeUndefined();
+
+    delete process.env.MCP_ANALYTICS_HASH_SECRET;
+  });
+
+  it('🙅 CONSENT TOOL TEST: Users can opt out and the preference is persisted in state', async () => {
+    const agent = createAgent();
+    (agent as any).registerConsentTool();
+
+    const [toolName, , , consentCallback] = agent.server.tool.mock.calls[0];
+    expect(toolName).toBe('analytics_consent');
+
+    const result = await consentCallback({ level: 'none' });
+    expect(result.content[0].text).toContain('"none"');
+    expect((agent as any).state).toEqual({ analyticsConsent: 'none' });
+
+    agent.trackEvent('report_exported', {});
+    agent.analyticsTool('echo', 'Echo', { text: z.string() }, async () => ({ content: [] }));
+    await agent.server.tool.mock.calls[1][3]({ text: 'hi' }, { signal: new AbortController().signal });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(mockQueueEvent).not.toHaveBeenCalled();
+  });
+
+  it('🔁 CONSENT STORE TEST: An opt-out outlives the session when MCP_ANALYTICS_KV is bound', async () => {
+    const kv = new Map<string, string>();
+    const env = {
+      MCP_ANALYTICS_KV: {
+        get: vi.fn(async (key: string) => kv.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+          kv.set(key, value);
+        }),
+      },
+    };
+
+    const firstSession = createAgent(env);
+    (firstSession as any).registerConsentTool();
+    const result = await firstSession.server.tool.mock.calls[0][3]({ level: 'none' });
+    expect(result.content[0].text).toBe('Analytics tracking preference updated to "none".');
+    expect(kv.get('mcp-analytics:consent:user_42')).toBe('none');
+
+    // Reconnecting starts a new agent instance with empty state
+    const secondSession = createAgent(env);
+    secondSession.analyticsTool('echo', 'Echo', { text: z.string() }, async () => ({ content: [] }));
+    await secondSession.server.tool.mock.calls[0][3]({ text: 'hi' }, { signal: new AbortController().signal });
+    secondSession.trackEvent('report_exported', {});
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(mockQueueEvent).not.toHaveBeenCalled();
+
+    // Without the binding the preference is kept for the session only, and the user is told
+    const unbound = createAgent();
+    (unbound as any).registerConsentTool();
+    const sessionResult = await unbound.server.tool.mock.calls[0][3]({ level: 'anonymous' });
+    expect(sessionResult.content[0].text).toBe('Analytics tracking preference updated to "anonymous" for this session only.');
+  });
+
+  it('🕵️ CONSENT PROPS TEST: OAuth props can downgrade events to anonymous', async () => {
+    const agent = createAgent();
+    agent.props = { ...agent.props, analyticsConsent: 'anonymous' };
+
+    agent.trackEvent('report_exported', { format: 'csv' });
+    await vi.waitFor(() => expect(mockQueueEvent).toHaveBeenCalledTimes(1));
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.consent).toBe('anonymous');
+    expect(event.properties).toEqual({ format: 'csv' });
+    expect(event.userId).toBeUndefined();
+    expect(event.email).toBeUndefined();
+  });
+
+  it('🧾 PAID OPTIONS TEST: analyticsPaidTool rejects meterValue with billingTiming before synchronously', () => {
+    const agent = new (TestPaidAgent as any)({ id: { toString: () => 'do_paid_123' }, storage: {} }, {}) as TestPaidAgent;
+    agent.props = { userEmail: 'user@example.com' };
+    const options = {
+      paymentReason: 'Pay per row',
+      meterEvent: 'rows_imported',
+      meterValue: () => 5,
+      billingTiming: 'before' as const,
+      checkout: { line_items: [{ price: 'price_rows123' }], mode: 'subscription' },
+    };
+
+    expect(() => agent.analyticsPaidTool('importRows', 'Import rows', { file: z.string() }, async () => ({ content: [] }), options))
+      .toThrow('meterValue needs the tool result');
+    expect(agent.server.tool).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import { AnalyticsClient } from '../core/client.js';
+import { getTraceContext, parseTraceparent } from '../core/trace-context';
 import type {
   ServerNotification,
   ServerRequest,
@@ -13,7 +15,7 @@ const mockQueueEvent = vi.fn();
 const mockFlush = vi.fn();
 const mockDestroy = vi.fn();
 
-vi.mock('./core/client.js', () => ({
+vi.mock('../core/client.js', () => ({
   AnalyticsClient: vi.fn().mockImplementation(() => {
     console.log('📊 AnalyticsClient created successfully');
     return {
@@ -305,4 +307,227 @@ describe('🧪 COMPREHENSIVE SDK TESTS - AnalyticsMcpAgent Compatibility', () =>
 
     console.log('🎉 FAILURE TEST PASSED: Tools survive analytics failures!');
   });
-});
\ No newline at end of file
+
+  it('⏱️ PREPARATION TEST: Duration excludes consent work and a failing capture skips the event', async () => {
+    console.log('\n⏱️ Testing analytics preparation around the tool call...');
+
+    const callback = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+    registerAnalyticsTool(
+      mockMcpServer,
+      'timedTool',
+      'Tool with slow consent lookup',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        getConsent: () => new Promise(resolve => setTimeout(() => resolve('full'), 50)),
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'fast' }, mockExtra);
+
+    // ✅ The 50ms consent lookup isn't counted as tool time
+    expect(mockQueueEvent).toHaveBeenCalledTimes(1);
+    expect(mockQueueEvent.mock.calls[0][0].duration).toBeLessThan(50);
+    console.log('✅ Duration covers only the tool callback');
+
+    // ✅ Parameter capture blowing up is logged, the tool still runs and returns
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const brokenArgs = { get input(): string { throw new Error('getter exploded'); } };
+    const result = await wrappedCallback(brokenArgs, mockExtra);
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'ok' }] });
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(mockQueueEvent).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('[MCP Analytics] Failed to prepare call analytics, not recording this call:', expect.any(Error));
+    warn.mockRestore();
+    console.log('✅ Call ran unrecorded after a preparation failure');
+
+    console.log('🎉 PREPARATION TEST PASSED: Analytics work stays out of the tool call!');
+  });
+
+  it('🤝 SHARED CLIENT TEST: Tools reuse an injected AnalyticsClient', async () => {
+    console.log('\n🤝 Testing shared analytics client...');
+
+    const sharedQueueEvent = vi.fn();
+    const sharedClient = { queueEvent: sharedQueueEvent } as unknown as AnalyticsClient;
+    const callback = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+
+    for (const toolName of ['firstTool', 'secondTool']) {
+      registerAnalyticsTool(
+        mockMcpServer,
+        toolName,
+        'Shared client tool',
+        { input: z.string() },
+        callback,
+        { analyticsClient: sharedClient }
+      );
+    }
+
+    // ✅ No per-tool clients should be created
+    expect(AnalyticsClient).not.toHaveBeenCalled();
+    console.log('✅ No dedicated clients created');
+
+    await mockMcpServer.tool.mock.calls[0][3]({ input: 'a' }, mockExtra);
+    await mockMcpServer.tool.mock.calls[1][3]({ input: 'b' }, mockExtra);
+
+    // ✅ Events from both tools land in the same queue
+    expect(sharedQueueEvent).toHaveBeenCalledTimes(2);
+    expect(sharedQueueEvent.mock.calls.map(call => call[0].toolName)).toEqual(['firstTool', 'secondTool']);
+    expect(mockQueueEvent).not.toHaveBeenCalled();
+    console.log('✅ Events batched through shared client');
+
+    console.log('🎉 SHARED CLIENT TEST PASSED: One client per agent!');
+  });
+
+  it('🧵 TRACE CONTEXT TEST: Propagates traceparent to events and the tool callback', async () => {
+    console.log('\n🧵 Testing W3C trace context propagation...');
+
+    const incomingTraceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    let callbackTraceparent: string | undefined;
+
+    const tracedCallback = vi.fn().mockImplementation(async (_args, extra) => {
+      callbackTraceparent = getTraceContext(extra)?.traceparent;
+      return { content: [{ type: 'text', text: 'traced' }] };
+    });
+
+    registerAnalyticsTool(
+      mockMcpServer,
+      'tracedTool',
+      'Tool that forwards trace context',
+      { input: z.string() },
+      tracedCallback,
+      { apiKey: 'test-key' }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    const tracedExtra = { ...mockExtra, _meta: { traceparent: incomingTraceparent } };
+    await wrappedCallback({ input: 'test' }, tracedExtra);
+
+    const event = mockQueueEvent.mock.calls[0][0];
+
+    // ✅ Event continues the caller's trace with a new span
+    expect(event.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(event.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(event.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(event.spanId).not.toBe('00f067aa0ba902b7');
+    console.log('✅ Trace identifiers recorded on event');
+
+    // ✅ Tool callback sees the same context to forward downstream
+    expect(parseTraceparent(callbackTraceparent)).toEqual({
+      traceId: event.traceId,
+      spanId: event.spanId,
+      traceFlags: '01',
+    });
+    console.log('✅ Active context exposed to tool callback');
+
+    // ✅ A new trace is started when no traceparent is received
+    await wrappedCallback({ input: 'test' }, mockExtra);
+    const untracedEvent = mockQueueEvent.mock.calls[1][0];
+    expect(untracedEvent.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(untracedEvent.parentSpanId).toBeNull();
+
+    console.log('🎉 TRACE CONTEXT TEST PASSED: Trace context propagates!');
+  });
+
+  it('🚦 OUTCOME TEST: Classifies isError results, validation errors and cancellations', async () => {
+    console.log('\n🚦 Testing outcome classification...');
+
+    const outcomeCallback = vi.fn()
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'ok' }] })
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'City not found' }], isError: true })
+      .mockRejectedValueOnce(Object.assign(new Error('Invalid input'), { name: 'ZodError' }))
+      .mockRejectedValueOnce(new Error('Request aborted'));
+
+    registerAnalyticsTool(
+      mockMcpServer,
+      'weatherTool',
+      'Weather lookup',
+      { city: z.string() },
+      outcomeCallback,
+      { apiKey: 'test-key' }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+
+    await wrappedCallback({ city: 'Paris' }, mockExtra);
+
+    // ✅ isError results are returned unchanged but recorded as failures
+    const toolErrorResult = await wrappedCallback({ city: 'Atlantis' }, mockExtra);
+    expect(toolErrorResult.isError).toBe(true);
+
+    await expect(wrappedCallback({ city: '' }, mockExtra)).rejects.toThrow('Invalid input');
+
+    const abortController = new AbortController();
+    abortController.abort();
+    await expect(wrappedCallback({ city: 'Rome' }, { ...mockExtra, signal: abortController.signal }))
+      .rejects.toThrow('Request aborted');
+
+    const events = mockQueueEvent.mock.calls.map(call => call[0]);
+    expect(events.map(event => [event.eventType, event.outcome, event.success])).toEqual([
+      ['mcp.tool.completed', 'success', true],
+      ['mcp.tool.failed', 'tool_error', false],
+      ['mcp.tool.failed', 'validation_error', false],
+      ['mcp.tool.failed', 'cancelled', false],
+    ]);
+    expect(events[1].errorType).toBe('ToolError');
+    expect(events[1].errorMessage).toBe('City not found');
+    console.log('✅ Every event carries an outcome');
+
+    console.log('🎉 OUTCOME TEST PASSED: Error rates are accurate!');
+  });
+
+  it('🏷️ METADATA TEST: Static tags and enrich() fields are merged into events', async () => {
+    console.log('\n🏷️ Testing per-tool metadata...');
+
+    const enrich = vi.fn().mockImplementation((params, result) => ({
+      region: params.region,
+      resultCount: result ? result.content.length : 0,
+      eventType: 'should.not.override',
+    }));
+
+    registerAnalyticsTool(
+      mockMcpServer,
+      'reportTool',
+      'Generate reports',
+      { region: z.string() },
+      vi.fn()
+        .mockResolvedValueOnce({ content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] })
+        .mockRejectedValueOnce(new Error('Report failed')),
+      {
+        apiKey: 'test-key',
+        tags: ['reports', 'beta'],
+        category: 'reporting',
+        owner: 'team-insights',
+        version: '2.3.0',
+        enrich,
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ region: 'eu' }, mockExtra);
+    await expect(wrappedCallback({ region: 'us' }, mockExtra)).rejects.toThrow('Report failed');
+
+    const [completed, failed] = mockQueueEvent.mock.calls.map(call => call[0]);
+
+    // ✅ Static metadata on every event
+    expect(completed.tags).toEqual(['reports', 'beta']);
+    expect(completed.category).toBe('reporting');
+    expect(completed.owner).toBe('team-insights');
+    expect(completed.toolVersion).toBe('2.3.0');
+    expect(failed.owner).toBe('team-insights');
+    console.log('✅ Static metadata attached');
+
+    // ✅ Dynamic fields merged without overriding core fields
+    expect(completed.region).toBe('eu');
+    expect(completed.resultCount).toBe(2);
+    expect(completed.eventType).toBe('mcp.tool.completed');
+    expect(failed.region).toBe('us');
+    expect(failed.resultCount).toBe(0);
+    expect(enrich).toHaveBeenCalledWith({ region: 'eu' }, expect.anything(), mockExtra);
+    console.log('✅ enrich() fields merged');
+
+    console.log('🎉 METADATA TEST PASSED: Dashboards can slice by team!');
+  });
+});
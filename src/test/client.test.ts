@@ -0,0 +1,389 @@
+import { AnalyticsClient } from '../core/client';
+import { computeBackoffDelay, parseRetryAfter, resolveRetryPolicy } from '../core/retry';
+import { DurableObjectPersistenceAdapter } from '../core/persistence';
+import type { EventPersistenceAdapter } from '../core/persistence';
+import type { MCPEvent } from '../core/types';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+const mockFetch = vi.fn();
+
+const okResponse = () => new Response(JSON.stringify({
+  success: true,
+  processed: 1,
+  skipped: 0,
+  tenantId: 'tenant_123',
+  timestamp: Date.now(),
+}), { status: 200 });
+
+const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: { message: `HTTP ${status}` } }), { status, headers });
+
+const createEvent = (toolName = 'testTool'): MCPEvent => ({
+  eventType: 'mcp.tool.completed',
+  serverName: 'Test Server',
+  timestamp: Date.now(),
+  toolName,
+  success: true,
+});
+
+describe('🧪 ANALYTICS CLIENT TESTS - Delivery & Retry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('🔁 RETRY TEST: Re-queues a failed batch and retries with backoff', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(okResponse());
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      retry: { initialDelay: 1000, jitter: false },
+    });
+
+    client.queueEvent(createEvent());
+    await client.flush();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // ✅ Nothing is sent again before the backoff delay elapses
+    await vi.advanceTimersByTimeAsync(999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // ✅ The retried batch contains the original event
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.events).toHaveLength(1);
+    expect(body.events[0].toolName).toBe('testTool');
+  });
+
+  it('⏳ RETRY-AFTER TEST: Honors Retry-After on 429 responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '5' }))
+      .mockResolvedValueOnce(okResponse());
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      retry: { initialDelay: 100, jitter: false },
+    });
+
+    client.queueEvent(createEvent());
+    await client.flush();
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('⏳ LONG RETRY-AFTER TEST: Waits the full Retry-After even when it exceeds maxDelay', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(503, { 'Retry-After': '45' }))
+      .mockResolvedValueOnce(okResponse());
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      retry: { maxDelay: 30000, jitter: false },
+    });
+
+    client.queueEvent(createEvent());
+    await client.flush();
+
+    await vi.advanceTimersByTimeAsync(44999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('🗑️ DROP TEST: Drops events and reports count once retries are exhausted', async () => {
+    mockFetch.mockImplementation(async () => errorResponse(503));
+    const onEventsDropped = vi.fn();
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      retry: { maxAttempts: 3, initialDelay: 10, jitter: false },
+      onEventsDropped,
+    });
+
+    client.queueEvent(createEvent('first'));
+    client.queueEvent(createEvent('second'));
+    await client.flush();
+    await vi.advanceTimersByTimeAsync(10);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(onEventsDropped).toHaveBeenCalledTimes(1);
+    expect(onEventsDropped.mock.calls[0][0]).toBe(2);
+    expect(onEventsDropped.mock.calls[0][1].statusCode).toBe(503);
+  });
+
+  it('🚫 NON-RETRYABLE TEST: Client errors are dropped without retrying', async () => {
+    mockFetch.mockImplementation(async () => errorResponse(400));
+    const onEventsDropped = vi.fn();
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      onEventsDropped,
+    });
+
+    client.queueEvent(createEvent());
+    await client.flush();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(onEventsDropped).toHaveBeenCalledWith(1, expect.any(Error));
+  });
+
+  it('🛑 DESTROY TEST: Drains queued events on shutdown', async () => {
+    mockFetch.mockImplementation(async () => okResponse());
+
+    const client = new AnalyticsClient({ apiKey: 'test-key', flushInterval: 0 });
+    client.queueEvent(createEvent());
+    await client.destroy();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // ✅ Destroyed clients ignore new events
+    client.queueEvent(createEvent());
+    await client.flush();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('🪣 RATE LIMIT TEST: Drops events beyond the token bucket and refills over time', async () => {
+    const onEventsDropped = vi.fn();
+    const client = new AnalyticsClient({
+      sink: { send: vi.fn() },
+      flushInterval: 0,
+      batchSize: 25,
+      rateLimit: { eventsPerSecond: 2, burst: 3 },
+      onEventsDropped,
+    });
+    const queue = () => (client as any).eventQueue.length;
+
+    for (let i = 0; i < 5; i++) client.queueEvent(createEvent());
+    expect(queue()).toBe(3);
+    expect(onEventsDropped).toHaveBeenCalledTimes(2);
+    expect(onEventsDropped).toHaveBeenCalledWith(1, expect.objectContaining({ message: 'Client rate limit exceeded' }));
+
+    // ✅ Two tokens refill after one second
+    vi.advanceTimersByTime(1000);
+    for (let i = 0; i < 3; i++) client.queueEvent(createEvent());
+    expect(queue()).toBe(5);
+    expect(onEventsDropped).toHaveBeenCalledTimes(3);
+  });
+
+  it('📦 OVERFLOW TEST: Bounds the queue according to the overflow policy', () => {
+    const fill = (overflowPolicy: 'drop-oldest' | 'drop-newest' | 'drop-non-error') => {
+      const onEventsDropped = vi.fn();
+      const client = new AnalyticsClient({
+        sink: { send: vi.fn() },
+        flushInterval: 0,
+        batchSize: 25,
+        maxQueueSize: 3,
+        overflowPolicy,
+        onEventsDropped,
+      });
+      client.queueEvent(createEvent('ok-1'));
+      client.queueEvent({ ...createEvent('error-1'), success: false });
+      client.queueEvent(createEvent('ok-2'));
+      client.queueEvent(createEvent('ok-3'));
+      client.queueEvent({ ...createEvent('error-2'), success: false });
+      return {
+        queued: (client as any).eventQueue.map((event: MCPEvent) => event.toolName),
+        onEventsDropped,
+      };
+    };
+
+    expect(fill('drop-oldest').queued).toEqual(['ok-2', 'ok-3', 'error-2']);
+    expect(fill('drop-newest').queued).toEqual(['ok-1', 'error-1', 'ok-2']);
+    expect(fill('drop-non-error').queued).toEqual(['error-1', 'ok-3', 'error-2']);
+
+    const { onEventsDropped } = fill('drop-oldest');
+    expect(onEventsDropped).toHaveBeenCalledTimes(2);
+    expect(onEventsDropped).toHaveBeenCalledWith(1, expect.objectContaining({ message: 'Analytics queue full (max: 3)' }));
+  });
+
+  it('📊 STATS TEST: Counts enqueued, sent, dropped events and failed batches', async () => {
+    mockFetch
+      .mockImplementationOnce(async () => errorResponse(503))
+      .mockImplementation(async () => okResponse());
+
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      maxQueueSize: 2,
+      retry: { initialDelay: 1000, jitter: false },
+    });
+
+    client.queueEvent(createEvent());
+    client.queueEvent(createEvent());
+    client.queueEvent(createEvent());
+    expect(client.getStats()).toEqual({ enqueued: 3, sent: 0, dropped: 1, rejected: 0, skipped: 0, failedBatches: 0, queueSize: 2 });
+
+    await client.flush();
+    expect(client.getStats()).toMatchObject({ sent: 0, failedBatches: 1, queueSize: 2 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(client.getStats()).toEqual({ enqueued: 3, sent: 2, dropped: 1, rejected: 0, skipped: 0, failedBatches: 1, queueSize: 0 });
+  });
+
+  it('🧾 VALIDATION TEST: Surfaces rejected events and routes them to a dead-letter sink', async () => {
+    mockFetch.mockImplementation(async () => new Response(JSON.stringify({
+      success: true,
+      processed: 1,
+      skipped: 2,
+      tenantId: 'tenant_123',
+      validation_errors: [{ index: 1, error: 'properties.total: expected number' }, { index: 7, error: 'bogus' }],
+      timestamp: Date.now(),
+    }), { status: 200 }));
+
+    const onValidationError = vi.fn();
+    const deadLetterSink = { send: vi.fn().mockResolvedValue(undefined) };
+    const client = new AnalyticsClient({
+      apiKey: 'test-key',
+      flushInterval: 0,
+      debug: true,
+      onValidationError,
+      deadLetterSink,
+    });
+
+    client.queueEvent(createEvent('valid'));
+    client.queueEvent(createEvent('invalid'));
+    await client.flush();
+
+    expect(onValidationError).toHaveBeenCalledTimes(1);
+    expect(onValidationError).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: 'invalid' }),
+      'properties.total: expected number'
+    );
+    expect(deadLetterSink.send).toHaveBeenCalledWith([expect.objectContaining({ toolName: 'invalid' })]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Event rejected by ingest API (mcp.tool.completed invalid)'),
+      'properties.total: expected number'
+    );
+    expect(client.getStats()).toMatchObject({ sent: 2, rejected: 1, skipped: 2 });
+  });
+
+  it('📐 BACKOFF TEST: Computes exponential delays and parses Retry-After', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 100, maxDelay: 1000, jitter: false });
+
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(400);
+    expect(computeBackoffDelay(10, policy)).toBe(1000);
+
+    // Retry-After is honored beyond maxDelay, up to maxRetryAfter
+    expect(computeBackoffDelay(1, policy, 5000)).toBe(5000);
+    expect(computeBackoffDelay(1, policy, 120000)).toBe(120000);
+    expect(computeBackoffDelay(1, policy, 3600000)).toBe(600000);
+    expect(computeBackoffDelay(1, resolveRetryPolicy({ maxRetryAfter: 10000 }), 60000)).toBe(10000);
+
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('not-a-date')).toBeUndefined();
+  });
+
+  it('💾 PERSISTENCE TEST: Replays stored events and schedules flushes through the adapter', async () => {
+    mockFetch.mockImplementation(async () => okResponse());
+    const setIntervalSpy = vi.spyOn(globalThis, 'setInterval');
+
+    let stored: MCPEvent[] = [createEvent('persistedTool')];
+    const adapter: EventPersistenceAdapter = {
+      load: vi.fn(async () => stored),
+      save: vi.fn(async (events: MCPEvent[]) => { stored = events; }),
+      scheduleFlush: vi.fn(async () => {}),
+    };
+
+    const client = new AnalyticsClient({ apiKey: 'test-key', persistence: adapter });
+
+    // ✅ Adapter scheduling replaces the interval timer
+    expect(setIntervalSpy).not.toHaveBeenCalled();
+
+    client.queueEvent(createEvent('newTool'));
+    await client.flush();
+
+    // ✅ Persisted events are sent ahead of new ones
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.events.map((event: MCPEvent) => event.toolName)).toEqual(['persistedTool', 'newTool']);
+    expect(adapter.scheduleFlush).toHaveBeenCalled();
+
+    await client.destroy();
+    expect(stored).toEqual([]);
+  });
+
+  it('🗄️ DURABLE OBJECT STORAGE TEST: Stores queue chunks and sets alarms', async () => {
+    const data = new Map<string, any>();
+    let alarm: number | null = null;
+    const storage = {
+      get: vi.fn(async (key: string | string[]) =>
+        Array.isArray(key) ? new Map(key.map(k => [k, data.get(k)])) : data.get(key)),
+      put: vi.fn(async (entries: Record<string, any>) => {
+        Object.entries(entries).forEach(([k, v]) => data.set(k, v));
+      }),
+      delete: vi.fn(async (keys: string[]) => { keys.forEach(k => data.delete(k)); }),
+      getAlarm: vi.fn(async () => alarm),
+      setAlarm: vi.fn(async (time: number) => { alarm = time; }),
+    } as unknown as DurableObjectStorage;
+
+    const adapter = new DurableObjectPersistenceAdapter(storage);
+    await adapter.save([createEvent('a'), createEvent('b')]);
+    expect(await new DurableObjectPersistenceAdapter(storage).load()).toHaveLength(2);
+
+    await adapter.save([]);
+    expect(await new DurableObjectPersistenceAdapter(storage).load()).toEqual([]);
+
+    // ✅ An earlier alarm is never pushed back
+    await adapter.scheduleFlush(1000);
+    const firstAlarm = alarm;
+    await adapter.scheduleFlush(5000);
+    expect(alarm).toBe(firstAlarm);
+  });
+
+  it('📦 CHUNK SIZE TEST: Sizes storage chunks in UTF-8 bytes and skips events over the limit', async () => {
+    const data = new Map<string, any>();
+    const storage = {
+      get: vi.fn(async (key: string | string[]) =>
+        Array.isArray(key) ? new Map(key.map(k => [k, data.get(k)])) : data.get(key)),
+      put: vi.fn(async (entries: Record<string, any>) => {
+        Object.entries(entries).forEach(([k, v]) => data.set(k, v));
+      }),
+      delete: vi.fn(async (keys: string[]) => { keys.forEach(k => data.delete(k)); }),
+    } as unknown as DurableObjectStorage;
+
+    // 10,000 characters but 30,000 UTF-8 bytes each
+    const events = Array.from({ length: 10 }, (_, index) => ({ ...createEvent(`tool${index}`), errorMessage: '€'.repeat(10000) }));
+    const oversized = { ...createEvent('huge'), errorMessage: '€'.repeat(50000) };
+
+    const adapter = new DurableObjectPersistenceAdapter(storage);
+    await adapter.save([...events.slice(0, 5), oversized, ...events.slice(5)]);
+
+    const encoder = new TextEncoder();
+    const chunkKeys = [...data.keys()].filter(key => key.startsWith('mcp-analytics:queue:'));
+    expect(chunkKeys.length).toBeGreaterThan(1);
+    for (const key of chunkKeys) {
+      expect(encoder.encode(JSON.stringify(data.get(key))).byteLength).toBeLessThanOrEqual(128 * 1024);
+    }
+
+    // ✅ The oversized event is left out instead of failing the whole save
+    const loaded = await new DurableObjectPersistenceAdapter(storage).load();
+    expect(loaded.map(event => event.toolName)).toEqual(events.map(event => event.toolName));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('1 event(s) exceed'));
+  });
+});
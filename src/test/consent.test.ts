@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import { applyConsent, resolveConsent } from '../analytics/consent';
+import { createToolFreeQuotaExhaustedEvent, createToolFreeQuotaUsedEvent, createToolUsageNotBilledEvent } from '../analytics/translator';
+import { validateEvent } from '../core/event-schemas';
+import type { AnalyticsClient } from '../core/client';
+import type { MCPEvent } from '../core/types';
+import { vi, describe, it, expect } from 'vitest';
+
+describe('🧪 CONSENT TESTS', () => {
+  const event: MCPEvent = {
+    eventType: 'mcp.tool.completed',
+    serverName: 'Test Server',
+    timestamp: 1700000000000,
+    toolName: 'search',
+    parameters: { query: 'hello' },
+    result: { content: [] },
+    duration: 12,
+    success: true,
+    outcome: 'success',
+    sessionId: 'session_1',
+    traceId: 'a'.repeat(32),
+    userId: 'user_1',
+    email: 'ada@example.com',
+    username: 'ada',
+    customerId: 'cus_123',
+  };
+
+  it('🎚️ LEVELS TEST: Suppresses, anonymizes or aggregates events', () => {
+    expect(applyConsent(event, 'full')).toBe(event);
+    expect(applyConsent(event, 'none')).toBeNull();
+
+    const anonymous = applyConsent(event, 'anonymous')!;
+    expect(anonymous.consent).toBe('anonymous');
+    expect(anonymous.parameters).toEqual({ query: 'hello' });
+    for (const field of ['userId', 'email', 'username', 'customerId']) {
+      expect(anonymous).not.toHaveProperty(field);
+    }
+
+    expect(applyConsent(event, 'aggregate')).toEqual({
+      consent: 'aggregate',
+      eventType: 'mcp.tool.completed',
+      serverName: 'Test Server',
+      timestamp: 1700000000000,
+      toolName: 'search',
+      duration: 12,
+      success: true,
+      outcome: 'success',
+    });
+  });
+
+  it('🎁 AGGREGATE QUOTA TEST: Free quota events keep their counters and still validate', () => {
+    const source = { serverName: 'Test Server' };
+    const quota = { freeQuotaLimit: 5, freeQuotaUsed: 5, freeQuotaRemaining: 0, freeQuotaPeriod: 'month' as const, freeQuotaResetsAt: '2025-07-01T00:00:00.000Z' };
+    const payment = { customerId: 'cus_123', paymentType: 'oneTimeSubscription' };
+    const context = { userInfo: { userId: 'user_1' } };
+
+    const events = [
+      createToolFreeQuotaUsedEvent(source, { toolName: 'search', parameters: { query: 'hello' }, duration: 12 }, quota, payment, context),
+      createToolFreeQuotaExhaustedEvent(source, 'search', quota, payment, context),
+    ];
+
+    for (const event of events) {
+      const aggregate = applyConsent(event, 'aggregate')!;
+      expect(aggregate).toMatchObject(quota);
+      expect(aggregate).not.toHaveProperty('customerId');
+      expect(aggregate).not.toHaveProperty('userId');
+      expect(validateEvent(aggregate)).toBeNull();
+    }
+  });
+
+  it('🧾 AGGREGATE BILLING TEST: usage_not_billed events keep their reason and still validate', () => {
+    const event = createToolUsageNotBilledEvent(
+      { serverName: 'Test Server' },
+      'importRows',
+      { billingTiming: 'afterSuccess', usageNotBilledReason: 'tool_failed' },
+      { customerId: 'cus_123', paymentType: 'usageBased' },
+      { userInfo: { userId: 'user_1' } }
+    );
+
+    const aggregate = applyConsent(event, 'aggregate')!;
+    expect(aggregate).toMatchObject({ toolName: 'importRows', billingTiming: 'afterSuccess', usageNotBilledReason: 'tool_failed' });
+    expect(aggregate).not.toHaveProperty('customerId');
+    expect(validateEvent(aggregate)).toBeNull();
+  });
+
+  it('🔐 RESOLVE TEST: Normalizes booleans and fails closed when the check throws', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await resolveConsent()).toBe('full');
+    expect(await resolveConsent(() => false)).toBe('none');
+    expect(await resolveConsent(async () => 'aggregate' as const)).toBe('aggregate');
+    expect(await resolveConsent(() => undefined)).toBe('full');
+    expect(await resolveConsent(() => { throw new Error('store down'); })).toBe('none');
+
+    warnSpy.mockRestore();
+  });
+
+  it('📝 EVENT TEST: Tool wrapper applies the consent callback to every event', async () => {
+    const mockQueueEvent = vi.fn();
+    const analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+    const mockServer = { tool: vi.fn(), server: {} } as any;
+    let consent: 'full' | 'none' | 'aggregate' = 'none';
+
+    const callback = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+    registerAnalyticsTool(mockServer, 'search', 'Search', { query: z.string() }, callback, {
+      analyticsClient,
+      getUserInfo: () => ({ userId: 'user_1' }),
+      getConsent: () => consent,
+    });
+
+    const wrappedCallback = mockServer.tool.mock.calls[0][3];
+    const extra = { signal: new AbortController().signal };
+
+    await wrappedCallback({ query: 'hello' }, extra);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(mockQueueEvent).not.toHaveBeenCalled();
+
+    consent = 'aggregate';
+    await wrappedCallback({ query: 'hello' }, extra);
+    const aggregate = mockQueueEvent.mock.calls[0][0];
+    expect(aggregate).toMatchObject({ eventType: 'mcp.tool.completed', toolName: 'search', consent: 'aggregate' });
+    expect(aggregate).not.toHaveProperty('parameters');
+    expect(aggregate).not.toHaveProperty('userId');
+    expect(aggregate).not.toHaveProperty('sessionId');
+  });
+});
@@ -0,0 +1,75 @@
+import { mcpEventSchema, validateEvent } from '../core/event-schemas';
+import { applyConsent } from '../analytics/consent';
+import { AnalyticsClient } from '../core/client';
+import { ValidationError } from '../core/errors';
+import { MemorySink } from '../core/sinks';
+import type { MCPEvent } from '../core/types';
+import { describe, it, expect } from 'vitest';
+
+const createEvent = (overrides: Partial<MCPEvent> = {}): MCPEvent => ({
+  eventType: 'mcp.tool.completed',
+  serverName: 'Test Server',
+  timestamp: Date.now(),
+  toolName: 'search',
+  parameters: { query: 'weather' },
+  duration: 42,
+  success: true,
+  outcome: 'success',
+  ...overrides,
+});
+
+describe('🧪 EVENT SCHEMA TESTS', () => {
+  it('✅ VALID TEST: Accepts every event type the SDK emits', () => {
+    const events: MCPEvent[] = [
+      createEvent(),
+      createEvent({ eventType: 'mcp.tool.started', success: undefined, outcome: undefined }),
+      createEvent({ eventType: 'mcp.tool.failed', success: false, outcome: 'exception', errorType: 'TypeError', errorMessage: 'boom' }),
+      createEvent({ eventType: 'mcp.tool.payment_required', success: false, outcome: 'payment_required', customerId: null, paymentStatus: 'required' }),
+      createEvent({ eventType: 'mcp.tool.payment_completed', customerId: 'cus_123', paymentAmount: 500, paymentCurrency: 'usd' }),
+      createEvent({ eventType: 'mcp.tool.payment_failed', success: false, customerId: null }),
+      { eventType: 'mcp.resource.read', serverName: 'Test Server', timestamp: Date.now(), resourceName: 'config', resourceUri: 'config://app', success: true },
+      { eventType: 'mcp.prompt.get', serverName: 'Test Server', timestamp: Date.now(), promptName: 'review', success: true },
+      { eventType: 'mcp.server.init', serverName: 'Test Server', timestamp: Date.now(), sessionId: null },
+      { eventType: 'mcp.custom', eventName: 'signup', serverName: 'Test Server', timestamp: Date.now(), properties: { plan: 'pro' } },
+    ];
+
+    for (const event of events) {
+      expect(validateEvent(event)).toBeNull();
+    }
+
+    // JSON-RPC request ids may be strings or numbers
+    expect(validateEvent(createEvent({ requestId: 7 }))).toBeNull();
+    expect(validateEvent(createEvent({ requestId: 'req-7' }))).toBeNull();
+
+    // Custom metadata fields and consent-downgraded events still validate
+    expect(mcpEventSchema.parse(createEvent({ team: 'search' }))).toMatchObject({ team: 'search' });
+    expect(validateEvent(applyConsent(createEvent({ userId: 'user_1' }), 'aggregate')!)).toBeNull();
+  });
+
+  it('❌ INVALID TEST: Reports the first mismatch for each event type', () => {
+    expect(validateEvent(createEvent({ eventType: 'mcp.tool.unknown' }))).toMatch(/^eventType: Invalid discriminator value/);
+    expect(validateEvent(createEvent({ toolName: undefined }))).toBe('toolName: Required');
+    expect(validateEvent(createEvent({ duration: '42ms' as any }))).toMatch(/^duration: Expected number/);
+    expect(validateEvent(createEvent({ outcome: 'timeout' as any }))).toMatch(/^outcome: Invalid enum value/);
+    expect(validateEvent({ eventType: 'mcp.custom', serverName: 'Test Server', timestamp: Date.now() })).toBe('eventName: Required');
+  });
+
+  it('🛡️ CLIENT TEST: queueEvent() rejects malformed events when validation is enabled', () => {
+    const sink = new MemorySink();
+    const client = new AnalyticsClient({ sink, flushInterval: 0 });
+
+    expect(() => client.queueEvent(createEvent({ success: 'yes' as any }))).toThrow(ValidationError);
+    expect(() => client.queueEvent(createEvent({ success: 'yes' as any }))).toThrow('Invalid mcp.tool.completed event - success: Expected boolean, received string');
+    expect(client.getStats().enqueued).toBe(0);
+
+    client.queueEvent(createEvent());
+    expect(client.getStats().enqueued).toBe(1);
+
+    const unchecked = new AnalyticsClient({ sink, flushInterval: 0, validateEvents: false });
+    unchecked.queueEvent(createEvent({ success: 'yes' as any }));
+    expect(unchecked.getStats().enqueued).toBe(1);
+
+    client.destroy();
+    unchecked.destroy();
+  });
+});
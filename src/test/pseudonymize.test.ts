@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import type { AnalyticsClient } from '../core/client';
+import { hmacSha256, pseudonymizeUserInfo } from '../core/pseudonymize';
+import { vi, describe, it, expect } from 'vitest';
+
+describe('🧪 USER PSEUDONYMIZATION TESTS', () => {
+  it('🔑 HMAC TEST: Produces stable keyed SHA-256 digests', async () => {
+    // RFC 4231 test case 2
+    expect(await hmacSha256('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+    expect(await hmacSha256('secret-a', 'user_1')).not.toBe(await hmacSha256('secret-b', 'user_1'));
+  });
+
+  it('🕶️ FIELD MODES TEST: Applies keep/hash/drop per field', async () => {
+    const userInfo = { userId: 'user_1', email: ' Ada@Example.com ', username: 'Ada Lovelace' };
+
+    const defaults = await pseudonymizeUserInfo(userInfo, { secret: 's3cret' });
+    expect(defaults.userId).toBe(await hmacSha256('s3cret', 'user_1'));
+    expect(defaults.email).toBe(await hmacSha256('s3cret', 'ada@example.com'));
+    expect(defaults).not.toHaveProperty('username');
+
+    const custom = await pseudonymizeUserInfo(userInfo, {
+      secret: 's3cret',
+      userId: 'keep',
+      email: 'drop',
+      username: 'hash',
+    });
+    expect(custom).toEqual({ userId: 'user_1', username: await hmacSha256('s3cret', 'Ada Lovelace') });
+  });
+
+  it('🚫 FAIL CLOSED TEST: Drops fields to be hashed when no secret is configured', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await pseudonymizeUserInfo(
+      { userId: 'user_1', email: 'ada@example.com' },
+      { email: 'keep' }
+    );
+
+    expect(result).toEqual({ email: 'ada@example.com' });
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('📝 EVENT TEST: Tool events carry pseudonymized identifiers only', async () => {
+    const mockQueueEvent = vi.fn();
+    const analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+    const mockServer = { tool: vi.fn(), server: {} } as any;
+
+    registerAnalyticsTool(
+      mockServer,
+      'echo',
+      'Echo',
+      { text: z.string() },
+      async ({ text }: { text: string }) => ({ content: [{ type: 'text', text }] }),
+      {
+        analyticsClient,
+        getUserInfo: () => ({ userId: 'user_1', email: 'ada@example.com', username: 'ada' }),
+        privacy: { secret: 's3cret' },
+      }
+    );
+
+    const wrappedCallback = mockServer.tool.mock.calls[0][3];
+    await wrappedCallback({ text: 'hi' }, { signal: new AbortController().signal });
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.userId).toMatch(/^[0-9a-f]{64}$/);
+    expect(event.email).toBe(await hmacSha256('s3cret', 'ada@example.com'));
+    expect(event.username).toBeUndefined();
+    expect(JSON.stringify(event)).not.toContain('ada@example.com');
+  });
+});
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import type { AnalyticsClient } from '../core/client';
+import { sanitizeParameters } from '../core/utils';
+import { parsePath, matchesPath } from '../core/redaction';
+import { vi, describe, it, expect } from 'vitest';
+
+describe('🧪 PARAMETER REDACTION TESTS', () => {
+  it('🔒 DEFAULTS TEST: Redacts sensitive keys at any depth, including arrays', () => {
+    const sanitized = sanitizeParameters({
+      query: 'hello',
+      password: 'hunter2',
+      config: { apiKey: 'sk_live', region: 'eu' },
+      users: [{ name: 'Ada', token: 'abc' }, { name: 'Bob' }],
+    });
+
+    expect(sanitized).toEqual({
+      query: 'hello',
+      password: '[REDACTED]',
+      config: { apiKey: '[REDACTED]', region: 'eu' },
+      users: [{ name: 'Ada', token: '[REDACTED]' }, { name: 'Bob' }],
+    });
+  });
+
+  it('🧩 KEY PATTERN TEST: Supports exact keys and regular expressions', () => {
+    const sanitized = sanitizeParameters(
+      { ssn: '123-45-6789', ssnHint: 'last four', card_number: '4242', note: 'ok' },
+      { redactKeys: ['SSN', /^card_/] }
+    );
+
+    expect(sanitized).toEqual({
+      ssn: '[REDACTED]',
+      ssnHint: 'last four',
+      card_number: '[REDACTED]',
+      note: 'ok',
+    });
+  });
+
+  it('✅ ALLOWLIST TEST: Only captures allowed keys and still redacts sensitive ones', () => {
+    const sanitized = sanitizeParameters(
+      { city: 'Paris', filters: { lang: 'fr', email: 'a@b.c' }, notes: 'private', password: 'x' },
+      { allowKeys: ['city', 'filters', 'lang', 'password'] }
+    );
+
+    expect(sanitized).toEqual({
+      city: 'Paris',
+      filters: { lang: 'fr', email: '[REDACTED]' },
+      notes: '[REDACTED]',
+      password: '[REDACTED]',
+    });
+  });
+
+  it('✂️ LIMITS TEST: Applies configurable truncation and depth limits', () => {
+    const sanitized = sanitizeParameters(
+      { text: 'abcdefghij', nested: { deeper: { deepest: 1 } } },
+      { maxStringLength: 4, maxDepth: 2 }
+    );
+
+    expect(sanitized.text).toBe('abcd...[TRUNCATED]');
+    expect(sanitized.nested).toEqual({ deeper: '[MAX_DEPTH]' });
+    expect(sanitizeParameters({ text: 'x'.repeat(1001) }).text).toHaveLength(1000 + '...[TRUNCATED]'.length);
+  });
+
+  it('🛣️ PATH RULES TEST: Applies JSONPath-style rules before key redaction', () => {
+    const sanitized = sanitizeParameters(
+      {
+        user: { email: 'ada@example.com', name: 'Ada' },
+        items: [{ sku: 'A1', internalId: 7 }, { sku: 'B2', internalId: 8 }],
+        auth: { scheme: 'oauth' },
+        meta: { a: { trace: 't1' }, b: { trace: 't2' } },
+      },
+      {
+        rules: [
+          { path: '$.user.email', action: 'redact' },
+          { path: '$.items[*].internalId', action: 'remove' },
+          { path: '$.auth', action: 'keep' },
+          { path: '$..trace', action: 'remove' },
+        ],
+      }
+    );
+
+    expect(sanitized).toEqual({
+      user: { email: '[REDACTED]', name: 'Ada' },
+      items: [{ sku: 'A1' }, { sku: 'B2' }],
+      auth: { scheme: 'oauth' },
+      meta: { a: {}, b: {} },
+    });
+  });
+
+  it('🧭 PATH PARSER TEST: Parses and matches path expressions', () => {
+    expect(matchesPath(parsePath("$['items'][0].id"), ['items', 0, 'id'])).toBe(true);
+    expect(matchesPath(parsePath('$.items[0].id'), ['items', 1, 'id'])).toBe(false);
+    expect(matchesPath(parsePath('$..id'), ['a', 'b', 'id'])).toBe(true);
+    expect(matchesPath(parsePath('config.*'), ['config', 'x'])).toBe(true);
+    expect(() => parsePath('$.items[')).toThrow('Invalid redaction path');
+  });
+
+  it('🔧 TOOL OPTIONS TEST: Uses per-tool redaction options from AnalyticsToolOptions', async () => {
+    const mockQueueEvent = vi.fn();
+    const analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+    const mockServer = { tool: vi.fn(), server: {} } as any;
+
+    registerAnalyticsTool(
+      mockServer,
+      'lookup',
+      'Lookup',
+      { account: z.object({ iban: z.string(), country: z.string() }) },
+      async () => ({ content: [{ type: 'text', text: 'ok' }] }),
+      {
+        analyticsClient,
+        redaction: { rules: [{ path: '$.account.iban', action: 'redact' }] },
+      }
+    );
+
+    const wrappedCallback = mockServer.tool.mock.calls[0][3];
+    await wrappedCallback(
+      { account: { iban: 'DE89370400440532013000', country: 'DE' } },
+      { signal: new AbortController().signal, requestId: 'req-1' }
+    );
+
+    expect(mockQueueEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'mcp.tool.completed',
+        parameters: { account: { iban: '[REDACTED]', country: 'DE' } },
+      })
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { registerAnalyticsResource } from '../analytics/register-analytics-resource';
+import { registerAnalyticsPrompt } from '../analytics/register-analytics-prompt';
+import type { AnalyticsClient } from '../core/client';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+describe('🧪 RESOURCE + PROMPT ANALYTICS TESTS', () => {
+  let mockMcpServer: any;
+  let mockQueueEvent: ReturnType<typeof vi.fn>;
+  let analyticsClient: AnalyticsClient;
+  let mockExtra: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockMcpServer = {
+      resource: vi.fn(),
+      prompt: vi.fn(),
+      server: {
+        _clientVersion: { name: 'test-mcp-client', version: '2.0.0' },
+      },
+    };
+
+    mockQueueEvent = vi.fn();
+    analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+
+    mockExtra = {
+      signal: new AbortController().signal,
+      sendNotification: vi.fn(),
+      sendRequest: vi.fn(),
+      requestId: 'test-request-123',
+    };
+  });
+
+  it('📄 RESOURCE TEST: Tracks static resource reads', async () => {
+    const readCallback = vi.fn().mockResolvedValue({
+      contents: [{ uri: 'config://app', text: '{"theme":"dark"}' }],
+    });
+
+    registerAnalyticsResource(
+      mockMcpServer,
+      'app-config',
+      'config://app',
+      { description: 'App configuration' },
+      readCallback,
+      {
+        analyticsClient,
+        serverName: 'Test Server',
+        getSessionId: () => 'session_123',
+        getUserInfo: () => ({ userId: 'user_1' }),
+      }
+    );
+
+    const [name, uri, metadata, wrappedCallback] = mockMcpServer.resource.mock.calls[0];
+    expect(name).toBe('app-config');
+    expect(uri).toBe('config://app');
+    expect(metadata).toEqual({ description: 'App configuration' });
+
+    const result = await wrappedCallback(new URL('config://app'), mockExtra);
+    expect(result.contents[0].text).toBe('{"theme":"dark"}');
+    expect(readCallback).toHaveBeenCalledWith(new URL('config://app'), mockExtra);
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.eventType).toBe('mcp.resource.read');
+    expect(event.resourceName).toBe('app-config');
+    expect(event.resourceUri).toBe('config://app');
+    expect(event.success).toBe(true);
+    expect(event.duration).toBeGreaterThanOrEqual(1);
+    expect(event.sessionId).toBe('session_123');
+    expect(event.requestId).toBe('test-request-123');
+    expect(event.userId).toBe('user_1');
+    expect(event.clientVersion).toEqual({ name: 'test-mcp-client', version: '2.0.0' });
+  });
+
+  it('🧩 TEMPLATE TEST: Records template variables and read failures', async () => {
+    const readCallback = vi.fn().mockRejectedValue(new Error('User not found'));
+
+    registerAnalyticsResource(
+      mockMcpServer,
+      'user-profile',
+      new ResourceTemplate('users://{userId}/profile', { list: undefined }),
+      {},
+      readCallback,
+      { analyticsClient }
+    );
+
+    const wrappedCallback = mockMcpServer.resource.mock.calls[0][3];
+    await expect(wrappedCallback(new URL('users://42/profile'), { userId: '42' }, mockExtra))
+      .rejects.toThrow('User not found');
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.eventType).toBe('mcp.resource.read');
+    expect(event.parameters).toEqual({ userId: '42' });
+    expect(event.success).toBe(false);
+    expect(event.errorMessage).toBe('User not found');
+  });
+
+  it('💬 PROMPT TEST: Tracks prompt requests with sanitized arguments', async () => {
+    const promptCallback = vi.fn().mockResolvedValue({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Review this code' } }],
+    });
+
+    registerAnalyticsPrompt(
+      mockMcpServer,
+      'review-code',
+      'Review code',
+      { code: z.string(), apiToken: z.string() },
+      promptCallback,
+      { analyticsClient }
+    );
+
+    const [name, description, schema, wrappedCallback] = mockMcpServer.prompt.mock.calls[0];
+    expect(name).toBe('review-code');
+    expect(description).toBe('Review code');
+    expect(schema).toHaveProperty('code');
+
+    await wrappedCallback({ code: 'let x = 1', apiToken: 'secret' }, mockExtra);
+
+    const event = mockQueueEvent.mock.calls[0][0];
+    expect(event.eventType).toBe('mcp.prompt.get');
+    expect(event.promptName).toBe('review-code');
+    expect(event.parameters).toEqual({ code: 'let x = 1', apiToken: '[REDACTED]' });
+    expect(event.success).toBe(true);
+  });
+
+  it('🛡️ SAFETY TEST: Registers unwrapped without analytics configured', () => {
+    const readCallback = vi.fn();
+    const promptCallback = vi.fn();
+
+    registerAnalyticsResource(mockMcpServer, 'plain', 'plain://x', {}, readCallback, {});
+    registerAnalyticsPrompt(mockMcpServer, 'plain', 'Plain prompt', undefined, promptCallback, {});
+
+    expect(mockMcpServer.resource.mock.calls[0][3]).toBe(readCallback);
+    expect(mockMcpServer.prompt.mock.calls[0]).toEqual(['plain', 'Plain prompt', promptCallback]);
+  });
+});
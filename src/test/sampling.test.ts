@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import { createSampler, hashToUnitInterval } from '../analytics/sampling';
+import type { AnalyticsClient } from '../core/client';
+import type { MCPEvent } from '../core/types';
+import { vi, describe, it, expect, afterEach } from 'vitest';
+
+const createEvent = (overrides: Partial<MCPEvent> = {}): MCPEvent => ({
+  eventType: 'mcp.tool.completed',
+  serverName: 'Test Server',
+  timestamp: Date.now(),
+  toolName: 'search',
+  success: true,
+  ...overrides,
+});
+
+describe('🧪 SAMPLING TESTS', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('🎲 RATE TEST: Keeps a fraction of events and records the sample rate', () => {
+    expect(createSampler(undefined, 'search')).toBeUndefined();
+
+    const sampler = createSampler({ rate: 0.25, toolRates: { hot: 0.01 } }, 'search')!;
+    expect(sampler.rate).toBe(0.25);
+    expect(createSampler({ rate: 0.25, toolRates: { hot: 0.01 } }, 'hot')!.rate).toBe(0.01);
+
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+    expect(sampler.sample(createEvent())).toMatchObject({ sampleRate: 0.25 });
+    expect(sampler.sample(createEvent())).toBeNull();
+  });
+
+  it('🚨 FAILURE TEST: Always keeps failures unless disabled', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    const failed = createEvent({ eventType: 'mcp.tool.failed', success: false });
+
+    expect(createSampler({ rate: 0.1 }, 'search')!.sample(failed)).toMatchObject({ sampleRate: 1 });
+    expect(createSampler({ rate: 0.1, alwaysKeepFailures: false }, 'search')!.sample(failed)).toBeNull();
+  });
+
+  it('🧬 SESSION TEST: Per-session sampling keeps or drops whole sessions', () => {
+    const sampler = createSampler({ rate: 0.5, perSession: true }, 'search')!;
+    const sessions = Array.from({ length: 200 }, (_, i) => `session_${i}`);
+
+    for (const sessionId of sessions.slice(0, 20)) {
+      const first = sampler.sample(createEvent({ sessionId }));
+      const second = sampler.sample(createEvent({ sessionId, toolName: 'other' }));
+      expect(first === null).toBe(second === null);
+      expect(first === null).toBe(hashToUnitInterval(sessionId) >= 0.5);
+    }
+
+    // ✅ Roughly half the sessions are kept
+    const kept = sessions.filter(sessionId => sampler.sample(createEvent({ sessionId })) !== null).length;
+    expect(kept).toBeGreaterThan(70);
+    expect(kept).toBeLessThan(130);
+  });
+
+  it('📝 EVENT TEST: Tool wrapper samples successful calls but keeps failures', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const mockQueueEvent = vi.fn();
+    const analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+    const mockServer = { tool: vi.fn(), server: {} } as any;
+
+    const callback = vi.fn()
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'ok' }] })
+      .mockRejectedValueOnce(new Error('boom'));
+
+    registerAnalyticsTool(mockServer, 'search', 'Search', { query: z.string() }, callback, {
+      analyticsClient,
+      sampling: { rate: 0.1 },
+    });
+
+    const wrappedCallback = mockServer.tool.mock.calls[0][3];
+    const extra = { signal: new AbortController().signal };
+
+    await wrappedCallback({ query: 'a' }, extra);
+    await expect(wrappedCallback({ query: 'b' }, extra)).rejects.toThrow('boom');
+
+    expect(mockQueueEvent).toHaveBeenCalledTimes(1);
+    expect(mockQueueEvent.mock.calls[0][0]).toMatchObject({ eventType: 'mcp.tool.failed', sampleRate: 1 });
+  });
+});
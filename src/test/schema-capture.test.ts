@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import { createParamCapture } from '../analytics/schema-capture';
+import type { AnalyticsClient } from '../core/client';
+import { sanitizeParameters } from '../core/utils';
+import { hmacSha256, sha256Hex } from '../core/pseudonymize';
+import { PiiScanner } from '../core/pii';
+import { vi, describe, it, expect } from 'vitest';
+
+describe('🧪 SCHEMA-AWARE CAPTURE TESTS', () => {
+  const schema = {
+    keyword: z.string().describe('Search keyword [capture]'),
+    taxId: z.string().optional().describe('Tax ID [sensitive]'),
+    accountNumber: z.string().describe('[hashOnly] Account number'),
+    customer: z.object({
+      name: z.string(),
+      phone: z.string().describe('[sensitive]'),
+    }),
+    items: z.array(z.object({ sku: z.string(), serial: z.string().describe('[hashOnly]') })),
+  };
+
+  const args = {
+    keyword: 'monkey wrench',
+    taxId: 'DE123456789',
+    accountNumber: '000123',
+    customer: { name: 'Ada', phone: '+44 20 7946 0958' },
+    items: [{ sku: 'A1', serial: 'SN-1' }],
+  };
+
+  it('🏷️ DESCRIBE TEST: Applies [capture], [sensitive] and [hashOnly] tags from the schema', async () => {
+    const capture = createParamCapture(schema, {});
+    const sanitized = sanitizeParameters(await capture.prepare(args), capture.redaction);
+
+    expect(sanitized).toEqual({
+      keyword: 'monkey wrench', // Captured despite "key" being a sensitive key fragment
+      taxId: '[REDACTED]',
+      accountNumber: await sha256Hex('000123'),
+      customer: { name: 'Ada', phone: '[REDACTED]' },
+      items: [{ sku: 'A1', serial: await sha256Hex('SN-1') }],
+    });
+  });
+
+  it('🗺️ SIDE MAP TEST: paramCapture overrides descriptions and hashes with the privacy secret', async () => {
+    const capture = createParamCapture(schema, {
+      paramCapture: { taxId: 'capture', 'items.*.sku': 'hashOnly' },
+      privacy: { secret: 's3cret' },
+    });
+    const sanitized = sanitizeParameters(await capture.prepare(args), capture.redaction);
+
+    expect(sanitized.taxId).toBe('DE123456789');
+    expect(sanitized.accountNumber).toBe(await hmacSha256('s3cret', '000123'));
+    expect(sanitized.items).toEqual([
+      { sku: await hmacSha256('s3cret', 'A1'), serial: await hmacSha256('s3cret', 'SN-1') },
+    ]);
+  });
+
+  it('🛡️ CAPTURE PII TEST: [capture] skips key-name redaction but still masks PII and truncates', async () => {
+    const capture = createParamCapture(schema, {});
+    const keyword = 'mail ada@example.com ' + 'x'.repeat(5000);
+    const sanitized = sanitizeParameters(await capture.prepare({ ...args, keyword }), capture.redaction, new PiiScanner());
+
+    expect(sanitized.keyword).toBe(
+      ('mail [REDACTED:email] ' + 'x'.repeat(5000)).substring(0, 1000) + '...[TRUNCATED]'
+    );
+  });
+
+  it('📝 EVENT TEST: Tool events only record fields declared in the schema', async () => {
+    const mockQueueEvent = vi.fn();
+    const analyticsClient = { queueEvent: mockQueueEvent } as unknown as AnalyticsClient;
+    const mockServer = { tool: vi.fn(), server: {} } as any;
+
+    registerAnalyticsTool(
+      mockServer,
+      'lookup',
+      'Lookup',
+      { query: z.string(), ssn: z.string().describe('[sensitive]') },
+      async () => ({ content: [{ type: 'text', text: 'ok' }] }),
+      { analyticsClient }
+    );
+
+    const wrappedCallback = mockServer.tool.mock.calls[0][3];
+    await wrappedCallback(
+      { query: 'hello', ssn: '123-45-6789', injected: 'not in schema' },
+      { signal: new AbortController().signal }
+    );
+
+    expect(mockQueueEvent.mock.calls[0][0].parameters).toEqual({ query: 'hello', ssn: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,153 @@
+import { AnalyticsClient } from '../core/client';
+import { ConsoleSink, FanOutSink, HostedApiSink, MemorySink, WebhookSink } from '../core/sinks';
+import type { EventSink } from '../core/sinks';
+import { OtlpTraceSink } from '../telemetry/otlp-sink';
+import type { MCPEvent } from '../core/types';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+const mockFetch = vi.fn();
+
+const createEvent = (toolName = 'testTool'): MCPEvent => ({
+  eventType: 'mcp.tool.completed',
+  serverName: 'Test Server',
+  timestamp: Date.now(),
+  toolName,
+  success: true,
+});
+
+describe('🧪 EVENT SINK TESTS - Pluggable Destinations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('🏠 HOSTED SINK TEST: Posts to /ingest with the API key', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ success: true, processed: 1 })));
+
+    const sink = new HostedApiSink({ apiKey: 'test-key', apiUrl: 'https://analytics.example.com/' });
+    const response = await sink.send([createEvent()]);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://analytics.example.com/ingest');
+    expect(init.headers['X-API-Key']).toBe('test-key');
+    expect(JSON.parse(init.body).events).toHaveLength(1);
+    expect(response.processed).toBe(1);
+  });
+
+  it('🪝 WEBHOOK SINK TEST: Posts a transformed body with custom headers', async () => {
+    mockFetch.mockResolvedValue(new Response('ok'));
+
+    const sink = new WebhookSink({
+      url: 'https://collector.example.com/events',
+      headers: { Authorization: 'Bearer internal' },
+      transform: (events) => ({ records: events.map(event => event.toolName) }),
+    });
+    await sink.send([createEvent('a'), createEvent('b')]);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://collector.example.com/events');
+    expect(init.headers.Authorization).toBe('Bearer internal');
+    expect(JSON.parse(init.body)).toEqual({ records: ['a', 'b'] });
+  });
+
+  it('📝 CONSOLE SINK TEST: Writes one NDJSON line per event', async () => {
+    const lines: string[] = [];
+    const sink = new ConsoleSink({ log: (line) => lines.push(line) });
+
+    await sink.send([createEvent('a'), createEvent('b')]);
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).toolName).toBe('b');
+  });
+
+  it('🔀 FAN-OUT TEST: Tolerates a failing mirror unless requireAll is set', async () => {
+    const memory = new MemorySink();
+    const failing: EventSink = { send: vi.fn().mockRejectedValue(new Error('mirror down')) };
+
+    await new FanOutSink([memory, failing]).send([createEvent()]);
+    expect(memory.events).toHaveLength(1);
+
+    await expect(new FanOutSink([memory, failing], { requireAll: true }).send([createEvent()]))
+      .rejects.toThrow('mirror down');
+    await expect(new FanOutSink([failing]).send([createEvent()]))
+      .rejects.toThrow('mirror down');
+  });
+
+  it('🔌 CLIENT TEST: AnalyticsClient delivers through a custom sink without an API key', async () => {
+    const memory = new MemorySink();
+    const client = new AnalyticsClient({ sink: memory, flushInterval: 0 });
+
+    client.queueEvent(createEvent());
+    await client.flush();
+
+    expect(memory.events).toHaveLength(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+    await client.destroy();
+  });
+
+  it('🔭 OTLP TEST: Exports one span per tool call with MCP attributes', async () => {
+    mockFetch.mockResolvedValue(new Response('{}'));
+
+    const sink = new OtlpTraceSink({
+      endpoint: 'https://otel.example.com/v1/traces',
+      headers: { 'x-honeycomb-team': 'secret' },
+    });
+
+    await sink.send([
+      {
+        ...createEvent('paidTool'),
+        eventType: 'mcp.tool.payment_completed',
+        timestamp: 1700000001000,
+        duration: 250,
+        sessionId: 'session_123',
+        requestId: 'req_456',
+        clientVersion: { name: 'claude-desktop', version: '1.2.0' },
+        paymentStatus: 'paid',
+      },
+      {
+        ...createEvent('brokenTool'),
+        eventType: 'mcp.tool.failed',
+        duration: 10,
+        success: false,
+        errorType: 'TypeError',
+        errorMessage: 'boom',
+      },
+      { eventType: 'mcp.server.init', serverName: 'Test Server', timestamp: Date.now() },
+    ]);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://otel.example.com/v1/traces');
+    expect(init.headers['x-honeycomb-team']).toBe('secret');
+
+    const payload = JSON.parse(init.body);
+    const resource = payload.resourceSpans[0];
+    expect(resource.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'Test Server' } });
+
+    // ✅ Only timed tool events become spans
+    const spans = resource.scopeSpans[0].spans;
+    expect(spans).toHaveLength(2);
+
+    const [paidSpan, failedSpan] = spans;
+    expect(paidSpan.name).toBe('tools/call paidTool');
+    expect(paidSpan.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(paidSpan.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(paidSpan.startTimeUnixNano).toBe('1700000000750000000');
+    expect(paidSpan.endTimeUnixNano).toBe('1700000001000000000');
+    expect(paidSpan.attributes).toEqual(expect.arrayContaining([
+      { key: 'mcp.tool.name', value: { stringValue: 'paidTool' } },
+      { key: 'mcp.session.id', value: { stringValue: 'session_123' } },
+      { key: 'mcp.request.id', value: { stringValue: 'req_456' } },
+      { key: 'mcp.client.name', value: { stringValue: 'claude-desktop' } },
+      { key: 'mcp.client.version', value: { stringValue: '1.2.0' } },
+      { key: 'mcp.payment.status', value: { stringValue: 'paid' } },
+    ]));
+    expect(paidSpan.status.code).toBe(1);
+    expect(failedSpan.status).toEqual({ code: 2, message: 'boom' });
+  });
+});
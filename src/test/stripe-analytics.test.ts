@@ -2,6 +2,7 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerAnalyticsPaidTool } from '../stripe/register-analytics-paid-tool';
 import { registerAnalyticsTool } from '../analytics/register-analytics-tool';
+import { KVFreeQuotaStore } from '../stripe/free-quota';
 import type {
   ServerNotification,
   ServerRequest,
@@ -329,6 +330,9 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
         subscription: 'sub_123',
       }],
     });
+    mockStripe.subscriptions.list.mockResolvedValue({
+      data: [{ items: { data: [{ price: { id: 'price_123' } }] } }],
+    });
 
     await registerAnalyticsPaidTool(
       mockMcpServer,
@@ -623,6 +627,9 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
         subscription: 'sub_usage123',
       }],
     });
+    mockStripe.subscriptions.list.mockResolvedValue({
+      data: [{ items: { data: [{ price: { id: 'price_usage123' } }] } }],
+    });
 
     await registerAnalyticsPaidTool(
       mockMcpServer,
@@ -654,6 +661,7 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
 
     expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledWith({
       event_name: 'api.call',
+      identifier: expect.any(String),
       payload: {
         stripe_customer_id: 'cus_usage123',
         value: '1',
@@ -673,9 +681,169 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
       expect(usageCall[0].parameters.calls).toBe(10);
       expect(usageCall[0].parameters.password).toBe('[REDACTED]');
       expect(usageCall[0].result.usage).toBeDefined();
+      expect(usageCall[0].billedQuantity).toBe(1);
     }
   });
 
+  it('🔢 METERED QUANTITY TEST: Bills the meterValue quantity only after a successful call', async () => {
+    const callback = vi.fn()
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'Processed' }], rows: 250 })
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'Processed' }], rows: 40 })
+      .mockResolvedValueOnce({ content: [{ type: 'text', text: 'Import failed' }], isError: true });
+    const meterValue = vi.fn(async (_params: any, result: any) => result.rows);
+
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_rows123', email: 'rows@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_rows123', metadata: { toolName: 'importRows' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'importRows',
+      'Import rows',
+      { file: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Pay per row',
+        meterEvent: 'rows_imported',
+        meterValue,
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'rows@example.com',
+        entitlementCacheTtl: 0,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_rows123' }],
+          mode: 'subscription',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ file: 'a.csv' }, mockExtra);
+    await wrappedCallback({ file: 'b.csv' }, mockExtra);
+    await wrappedCallback({ file: 'c.csv' }, mockExtra);
+
+    // The failed call is neither metered nor measured
+    expect(meterValue).toHaveBeenCalledTimes(2);
+    expect(meterValue).toHaveBeenCalledWith({ file: 'a.csv' }, expect.objectContaining({ rows: 250 }));
+    const meterCalls = mockStripe.billing.meterEvents.create.mock.calls.map(call => call[0]);
+    expect(meterCalls.map(call => call.payload.value)).toEqual(['250', '40']);
+    expect(meterCalls[0].identifier).not.toBe(meterCalls[1].identifier);
+
+    const events = mockQueueEvent.mock.calls.map(call => call[0]);
+    expect(events.map(event => [event.eventType, event.billedQuantity])).toEqual([
+      ['mcp.tool.payment_completed', 250],
+      ['mcp.tool.payment_completed', 40],
+      ['mcp.tool.usage_not_billed', undefined],
+      ['mcp.tool.payment_failed', undefined],
+    ]);
+  });
+
+  it('🪪 METER IDENTIFIER TEST: A retried request reuses its meter identifier', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Metered call' }],
+    });
+
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_retry123', email: 'retry@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_retry123', metadata: { toolName: 'retriedTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'retriedTool',
+      'Retried tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Identifier test',
+        meterEvent: 'retried_calls',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'retry@example.com',
+        getSessionId: () => 'session_abc',
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_retry123' }],
+          mode: 'subscription',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'test' }, { ...mockExtra, requestId: 7 });
+    await wrappedCallback({ input: 'test' }, { ...mockExtra, requestId: 7 });
+    await wrappedCallback({ input: 'test' }, { ...mockExtra, requestId: 8 });
+
+    const identifiers = mockStripe.billing.meterEvents.create.mock.calls.map(call => call[0].identifier);
+    expect(identifiers).toEqual([
+      'session_abc:7:retriedTool',
+      'session_abc:7:retriedTool',
+      'session_abc:8:retriedTool',
+    ]);
+  });
+
+  it('⏱️ BILLING TIMING TEST: Failed calls are only billed when billingTiming asks for it', async () => {
+    const callback = vi.fn().mockRejectedValue(new Error('Upstream timeout'));
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_timing123', email: 'timing@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_timing123', metadata: { toolName: 'timedTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    const register = (billingTiming?: 'before' | 'afterSuccess' | 'always', meterValue?: () => number) =>
+      registerAnalyticsPaidTool(mockMcpServer, 'timedTool', 'Timed tool', { input: z.string() }, callback, {
+        apiKey: 'test-key',
+        paymentReason: 'Timing test',
+        meterEvent: 'timed_calls',
+        billingTiming,
+        meterValue,
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'timing@example.com',
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_timing123' }],
+          mode: 'subscription',
+        },
+      });
+
+    await expect(register('before', () => 5)).rejects.toThrow('meterValue needs the tool result');
+
+    // Default ('afterSuccess'): nothing billed, compensating event recorded
+    await register();
+    await expect(mockMcpServer.tool.mock.calls[0][3]({ input: 'test' }, mockExtra)).rejects.toThrow('Upstream timeout');
+    expect(mockStripe.billing.meterEvents.create).not.toHaveBeenCalled();
+    const notBilled = mockQueueEvent.mock.calls.find(call => call[0]?.eventType === 'mcp.tool.usage_not_billed');
+    expect(notBilled![0]).toMatchObject({
+      toolName: 'timedTool',
+      customerId: 'cus_timing123',
+      billingTiming: 'afterSuccess',
+      usageNotBilledReason: 'tool_failed',
+    });
+
+    // 'always': billed after the failed call
+    await register('always');
+    await expect(mockMcpServer.tool.mock.calls[1][3]({ input: 'test' }, mockExtra)).rejects.toThrow('Upstream timeout');
+    expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledTimes(1);
+    expect(mockStripe.billing.meterEvents.create.mock.invocationCallOrder[0])
+      .toBeGreaterThan(callback.mock.invocationCallOrder[1]);
+
+    // 'before': billed before the tool runs
+    await register('before');
+    await expect(mockMcpServer.tool.mock.calls[2][3]({ input: 'test' }, mockExtra)).rejects.toThrow('Upstream timeout');
+    expect(mockStripe.billing.meterEvents.create).toHaveBeenCalledTimes(2);
+    expect(mockStripe.billing.meterEvents.create.mock.invocationCallOrder[1])
+      .toBeLessThan(callback.mock.invocationCallOrder[2]);
+
+    expect(mockQueueEvent.mock.calls.filter(call => call[0]?.eventType === 'mcp.tool.usage_not_billed')).toHaveLength(1);
+  });
+
   it('💥 ERROR TEST: Handles errors with payment context tracking', async () => {
     const errorCallback = vi.fn().mockRejectedValue(new Error('Premium tool failed'));
 
@@ -994,6 +1162,9 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
         subscription: 'sub_complete123',
       }],
     });
+    mockStripe.subscriptions.list.mockResolvedValue({
+      data: [{ items: { data: [{ price: { id: 'price_complete123' } }] } }],
+    });
 
     await registerAnalyticsPaidTool(
       mockMcpServer,
@@ -1052,10 +1223,468 @@ describe('🧪 COMPLETE STRIPE + ANALYTICS TESTS - Full Payment Tracking & Inher
     }
   });
 
+  it('⚡ CACHE TEST: Reuses the stored customer ID and cached entitlement', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Cached call' }],
+    });
+    const setCustomerId = vi.fn();
+
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_cached123', email: 'cached@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_cached123', metadata: { toolName: 'cachedTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'cachedTool',
+      'Cached tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Cache test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'cached@example.com',
+        setCustomerId,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_cached123', quantity: 1 }],
+          mode: 'payment',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'first' }, mockExtra);
+    await wrappedCallback({ input: 'second' }, mockExtra);
+
+    // Only the first call reaches Stripe, and the customer ID is persisted
+    expect(mockStripe.customers.list).toHaveBeenCalledTimes(1);
+    expect(mockStripe.checkout.sessions.list).toHaveBeenCalledTimes(1);
+    expect(setCustomerId).toHaveBeenCalledWith('cus_cached123');
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    const completed = mockQueueEvent.mock.calls.filter(call => call[0]?.eventType === 'mcp.tool.payment_completed');
+    expect(completed).toHaveLength(2);
+    expect(completed[1][0]).toMatchObject({ customerId: 'cus_cached123', paymentSessionId: 'cs_cached123' });
+  });
+
+  it('🔢 REQUEST ID TEST: Numeric request ids are recorded and queue failures never reach the caller', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Numeric id call' }],
+    });
+
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_numeric123', email: 'numeric@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_numeric123', metadata: { toolName: 'numericTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'numericTool',
+      'Numeric request id tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Request id test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'numeric@example.com',
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_numeric123', quantity: 1 }],
+          mode: 'payment',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'first' }, { ...mockExtra, requestId: 7 });
+    expect(mockQueueEvent.mock.calls[0][0]).toMatchObject({ eventType: 'mcp.tool.payment_completed', requestId: 7 });
+
+    // A rejected event is logged and dropped, the tool result is still returned
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockQueueEvent.mockImplementationOnce(() => {
+      throw new Error('Invalid mcp.tool.payment_completed event');
+    });
+    const result = await wrappedCallback({ input: 'second' }, { ...mockExtra, requestId: 8 });
+
+    expect(result.content[0].text).toBe('Numeric id call');
+    expect(warn).toHaveBeenCalledWith('[MCP Analytics] Failed to queue payment event:', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('⏱️ PREPARATION TEST: Paid calls still run and bill when analytics preparation fails', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Prepared call' }],
+    });
+
+    mockStripe.customers.list.mockResolvedValue({
+      data: [{ id: 'cus_prep123', email: 'prep@example.com' }],
+    });
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_prep123', metadata: { toolName: 'prepTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'prepTool',
+      'Preparation test tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Preparation test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'prep@example.com',
+        getConsent: () => new Promise(resolve => setTimeout(() => resolve('full'), 50)),
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_prep123', quantity: 1 }],
+          mode: 'payment',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'first' }, mockExtra);
+
+    // The 50ms consent lookup isn't counted as tool time
+    expect(mockQueueEvent).toHaveBeenCalledTimes(1);
+    expect(mockQueueEvent.mock.calls[0][0].duration).toBeLessThan(50);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const brokenArgs = { get input(): string { throw new Error('getter exploded'); } };
+    const result = await wrappedCallback(brokenArgs, mockExtra);
+
+    expect(result.content[0].text).toBe('Prepared call');
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(mockQueueEvent).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('[MCP Analytics] Failed to prepare call analytics, not recording this call:', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('💾 STATE TEST: Skips the customer lookup when the ID is in agent state, never caches unpaid checks', async () => {
+    mockStripe.checkout.sessions.create.mockResolvedValue({ url: 'https://checkout.stripe.com/pay' });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'unpaidTool',
+      'Unpaid tool',
+      { input: z.string() },
+      vi.fn(),
+      {
+        apiKey: 'test-key',
+        paymentReason: 'State test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'state@example.com',
+        getCustomerId: () => 'cus_state123',
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_state123', quantity: 1 }],
+          mode: 'payment',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'first' }, mockExtra);
+    await wrappedCallback({ input: 'second' }, mockExtra);
+
+    expect(mockStripe.customers.list).not.toHaveBeenCalled();
+    expect(mockStripe.customers.create).not.toHaveBeenCalled();
+    expect(mockStripe.checkout.sessions.list).toHaveBeenCalledTimes(2);
+    expect(mockStripe.checkout.sessions.create).toHaveBeenCalledWith(expect.objectContaining({ customer: 'cus_state123' }));
+  });
+
+  it('🎫 ENTITLEMENT STORE TEST: Webhook entitlements are used before scanning checkout sessions', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Entitled call' }],
+    });
+    const entitlementStore = {
+      get: vi.fn().mockResolvedValue({
+        customerId: 'cus_entitled123',
+        toolName: 'entitledTool',
+        active: true,
+        checkoutSessionId: 'cs_entitled123',
+        subscriptionId: 'sub_entitled123',
+        updatedAt: 1700000000000,
+      }),
+      findBySubscription: vi.fn(),
+      put: vi.fn(),
+    };
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'entitledTool',
+      'Entitled tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Entitlement test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'entitled@example.com',
+        getCustomerId: () => 'cus_entitled123',
+        entitlementStore,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_entitled123', quantity: 1 }],
+          mode: 'subscription',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'test' }, mockExtra);
+
+    expect(entitlementStore.get).toHaveBeenCalledWith('cus_entitled123', 'entitledTool');
+    expect(mockStripe.checkout.sessions.list).not.toHaveBeenCalled();
+    expect(callback).toHaveBeenCalled();
+
+    const completedCall = mockQueueEvent.mock.calls.find(call => call[0]?.eventType === 'mcp.tool.payment_completed');
+    expect(completedCall![0]).toMatchObject({
+      customerId: 'cus_entitled123',
+      paymentSessionId: 'cs_entitled123',
+      subscriptionId: 'sub_entitled123',
+      paymentStatus: 'paid',
+    });
+  });
+
+  it('🎫 INACTIVE ENTITLEMENT TEST: Inactive webhook entitlements are rechecked with Stripe', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Repurchased call' }],
+    });
+    const entitlementStore = {
+      get: vi.fn().mockResolvedValue({
+        customerId: 'cus_lapsed123',
+        toolName: 'lapsedTool',
+        active: false,
+        subscriptionStatus: 'canceled',
+        updatedAt: 1700000000000,
+      }),
+      findBySubscription: vi.fn(),
+      put: vi.fn(),
+    };
+
+    // A newer checkout whose webhook hasn't arrived yet
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_repurchase123', metadata: { toolName: 'lapsedTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'lapsedTool',
+      'Lapsed tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Inactive entitlement test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'lapsed@example.com',
+        getCustomerId: () => 'cus_lapsed123',
+        entitlementStore,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_lapsed123', quantity: 1 }],
+          mode: 'payment',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    await wrappedCallback({ input: 'test' }, mockExtra);
+
+    expect(entitlementStore.get).toHaveBeenCalledWith('cus_lapsed123', 'lapsedTool');
+    expect(mockStripe.checkout.sessions.list).toHaveBeenCalled();
+    expect(callback).toHaveBeenCalled();
+
+    const completedCall = mockQueueEvent.mock.calls.find(call => call[0]?.eventType === 'mcp.tool.payment_completed');
+    expect(completedCall![0]).toMatchObject({ customerId: 'cus_lapsed123', paymentSessionId: 'cs_repurchase123' });
+  });
+
+  it('🚫 CANCELLED SUBSCRIPTION TEST: A revoked subscription gets a checkout link despite its old paid checkout', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Should not run' }],
+    });
+    const entitlementStore = {
+      get: vi.fn().mockResolvedValue({
+        customerId: 'cus_cancelled123',
+        toolName: 'cancelledTool',
+        active: false,
+        subscriptionId: 'sub_cancelled123',
+        subscriptionStatus: 'canceled',
+        updatedAt: 1703500000000,
+      }),
+      findBySubscription: vi.fn(),
+      put: vi.fn(),
+    };
+
+    // The checkout that started the subscription is still listed as paid
+    mockStripe.checkout.sessions.list.mockResolvedValue({
+      data: [{ id: 'cs_cancelled123', subscription: 'sub_cancelled123', metadata: { toolName: 'cancelledTool' }, payment_status: 'paid', created: 1703448000 }],
+    });
+    mockStripe.checkout.sessions.create.mockResolvedValue({ url: 'https://checkout.stripe.com/resubscribe' });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'cancelledTool',
+      'Cancelled tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Cancelled subscription test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'cancelled@example.com',
+        getCustomerId: () => 'cus_cancelled123',
+        entitlementStore,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_cancelled123', quantity: 1 }],
+          mode: 'subscription',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    const result = await wrappedCallback({ input: 'test' }, mockExtra);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      status: 'payment_required',
+      data: { checkoutUrl: 'https://checkout.stripe.com/resubscribe' },
+    });
+
+    // Without the webhook record, the missing active subscription still refuses access
+    entitlementStore.get.mockResolvedValue(null);
+    await wrappedCallback({ input: 'test' }, mockExtra);
+
+    expect(mockStripe.subscriptions.list).toHaveBeenCalledWith({ customer: 'cus_cancelled123', status: 'active' });
+    expect(mockStripe.checkout.sessions.create).toHaveBeenCalledTimes(2);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('🎁 FREE QUOTA TEST: Unpaid calls run free until the quota is used up, then require payment', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Free trial call' }],
+    });
+    const usage = new Map<string, any>();
+    const freeQuotaStore = {
+      get: vi.fn(async (customerId: string, toolName: string) => usage.get(`${customerId}:${toolName}`) || null),
+      put: vi.fn(async (customerId: string, toolName: string, value: any) => {
+        usage.set(`${customerId}:${toolName}`, value);
+      }),
+    };
+    mockStripe.checkout.sessions.create.mockResolvedValue({ url: 'https://checkout.stripe.com/trial' });
+
+    await registerAnalyticsPaidTool(
+      mockMcpServer,
+      'trialTool',
+      'Trial tool',
+      { input: z.string() },
+      callback,
+      {
+        apiKey: 'test-key',
+        paymentReason: 'Trial test',
+        stripeSecretKey: 'sk_test_123',
+        userEmail: 'trial@example.com',
+        meterEvent: 'trial_calls',
+        freeQuota: { calls: 2, period: 'month' },
+        freeQuotaStore,
+        checkout: {
+          success_url: 'https://example.com/success',
+          line_items: [{ price: 'price_trial123' }],
+          mode: 'subscription',
+        },
+      }
+    );
+
+    const wrappedCallback = mockMcpServer.tool.mock.calls[0][3];
+    for (let i = 0; i < 4; i++) {
+      await wrappedCallback({ input: 'test' }, mockExtra);
+    }
+
+    // Free calls run without being metered
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(mockStripe.billing.meterEvents.create).not.toHaveBeenCalled();
+    expect(mockStripe.checkout.sessions.create).toHaveBeenCalledTimes(2);
+
+    const events = mockQueueEvent.mock.calls.map(call => call[0]);
+    expect(events.map(event => event.eventType)).toEqual([
+      'mcp.tool.free_quota_used',
+      'mcp.tool.free_quota_used',
+      'mcp.tool.free_quota_exhausted',
+      'mcp.tool.payment_required',
+      'mcp.tool.payment_required',
+    ]);
+    expect(events[0]).toMatchObject({
+      toolName: 'trialTool',
+      customerId: 'cus_test123',
+      success: true,
+      paymentStatus: 'free_quota',
+      freeQuotaLimit: 2,
+      freeQuotaUsed: 1,
+      freeQuotaRemaining: 1,
+      freeQuotaPeriod: 'month',
+    });
+    expect(events[1]).toMatchObject({ freeQuotaUsed: 2, freeQuotaRemaining: 0 });
+    expect(events[2]).toMatchObject({ customerId: 'cus_test123', freeQuotaUsed: 2, freeQuotaRemaining: 0 });
+    expect(events[2].freeQuotaResetsAt).toMatch(/-01T00:00:00.000Z$/);
+  });
+
   // ================================
   // FREE ANALYTICS TESTS
   // ================================
 
+  it('🔁 SHARED QUOTA TEST: Reconnecting in a new session does not reset the free quota', async () => {
+    const callback = vi.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Free trial call' }],
+    });
+    const kv = new Map<string, string>();
+    const namespace = {
+      get: vi.fn(async (key: string) => (kv.has(key) ? JSON.parse(kv.get(key)!) : null)),
+      put: vi.fn(async (key: string, value: string) => {
+        kv.set(key, value);
+      }),
+    } as unknown as KVNamespace;
+    mockStripe.checkout.sessions.create.mockResolvedValue({ url: 'https://checkout.stripe.com/trial' });
+
+    // Each session registers its tools with its own store over the shared namespace
+    for (let session = 0; session < 2; session++) {
+      await registerAnalyticsPaidTool(
+        mockMcpServer,
+        'trialTool',
+        'Trial tool',
+        { input: z.string() },
+        callback,
+        {
+          apiKey: 'test-key',
+          paymentReason: 'Shared quota test',
+          stripeSecretKey: 'sk_test_123',
+          userEmail: 'trial@example.com',
+          freeQuota: { calls: 1, period: 'lifetime' },
+          freeQuotaStore: new KVFreeQuotaStore(namespace),
+          checkout: {
+            success_url: 'https://example.com/success',
+            line_items: [{ price: 'price_trial123', quantity: 1 }],
+            mode: 'payment',
+          },
+        }
+      );
+    }
+
+    await mockMcpServer.tool.mock.calls[0][3]({ input: 'first session' }, mockExtra);
+    await mockMcpServer.tool.mock.calls[1][3]({ input: 'second session' }, mockExtra);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(mockStripe.checkout.sessions.create).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(kv.get('mcp-analytics:free-quota:cus_test123:trialTool')!)).toMatchObject({ window: 'lifetime', used: 1 });
+  });
+
   it('📊 FREE ANALYTICS TEST: Free tool tracks without payment context', async () => {
     const callback = vi.fn().mockResolvedValue({
       content: [{ type: 'text', text: 'Free analytics tool executed' }],
@@ -0,0 +1,150 @@
+import Stripe from 'stripe';
+import { handleStripeWebhook } from '../stripe/webhooks';
+import { DurableObjectEntitlementStore, KVEntitlementStore } from '../stripe/entitlements';
+import { AnalyticsClient } from '../core/client';
+import { MemorySink } from '../core/sinks';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const stripe = new Stripe('sk_test_123');
+
+const createStorage = () => {
+  const data = new Map<string, any>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key)),
+    put: vi.fn(async (entries: Record<string, any>) => {
+      Object.entries(entries).forEach(([k, v]) => data.set(k, v));
+    }),
+  } as unknown as DurableObjectStorage;
+};
+
+const createKVNamespace = () => {
+  const data = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => (data.has(key) ? JSON.parse(data.get(key)!) : null)),
+    put: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+  } as unknown as KVNamespace;
+};
+
+const signedRequest = (type: string, object: Record<string, unknown>, created = 1700000000) => {
+  const payload = JSON.stringify({ id: `evt_${type}_${created}`, object: 'event', type, created, data: { object } });
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return new Request('https://example.com/stripe/webhook', {
+    method: 'POST',
+    headers: { 'stripe-signature': signature },
+    body: payload,
+  });
+};
+
+const checkoutCompleted = {
+  id: 'cs_123',
+  object: 'checkout.session',
+  customer: 'cus_123',
+  subscription: 'sub_123',
+  payment_status: 'paid',
+  amount_total: 999,
+  currency: 'usd',
+  created: 1700000000,
+  metadata: { toolName: 'premium_analysis' },
+};
+
+describe('🧪 STRIPE WEBHOOK TESTS', () => {
+  let store: DurableObjectEntitlementStore;
+  let sink: MemorySink;
+  let options: Parameters<typeof handleStripeWebhook>[1];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store = new DurableObjectEntitlementStore(createStorage());
+    sink = new MemorySink();
+    options = {
+      stripeSecretKey: 'sk_test_123',
+      webhookSecret: WEBHOOK_SECRET,
+      store,
+      analyticsClient: new AnalyticsClient({ sink, flushInterval: 0 }),
+      serverName: 'Test Server',
+    };
+  });
+
+  it('🔏 SIGNATURE TEST: Rejects unsigned and tampered requests', async () => {
+    const unsigned = new Request('https://example.com/stripe/webhook', { method: 'POST', body: '{}' });
+    expect((await handleStripeWebhook(unsigned, options)).status).toBe(400);
+
+    const request = signedRequest('checkout.session.completed', checkoutCompleted);
+    const tampered = new Request(request.url, {
+      method: 'POST',
+      headers: { 'stripe-signature': request.headers.get('stripe-signature')! },
+      body: (await request.text()).replace('cus_123', 'cus_attacker'),
+    });
+    expect((await handleStripeWebhook(tampered, options)).status).toBe(400);
+    expect(await store.get('cus_attacker', 'premium_analysis')).toBeNull();
+  });
+
+  it('✅ CHECKOUT TEST: Grants the tool and records mcp.payment.checkout_completed', async () => {
+    const response = await handleStripeWebhook(signedRequest('checkout.session.completed', checkoutCompleted), options);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, handled: true });
+
+    expect(await store.get('cus_123', 'premium_analysis')).toMatchObject({
+      active: true,
+      checkoutSessionId: 'cs_123',
+      subscriptionId: 'sub_123',
+    });
+
+    await options.analyticsClient!.flush();
+    expect(sink.events[0]).toMatchObject({
+      eventType: 'mcp.payment.checkout_completed',
+      stripeEventId: 'evt_checkout.session.completed_1700000000',
+      toolName: 'premium_analysis',
+      entitlementActive: true,
+      customerId: 'cus_123',
+      paymentAmount: 999,
+      paymentCurrency: 'usd',
+      paymentSessionId: 'cs_123',
+    });
+  });
+
+  it('🔄 SUBSCRIPTION TEST: Revokes on cancellation and restores on invoice.paid, ignoring stale events', async () => {
+    await handleStripeWebhook(signedRequest('checkout.session.completed', checkoutCompleted), options);
+
+    const subscription = { id: 'sub_123', object: 'subscription', customer: 'cus_123', status: 'past_due', metadata: {}, items: { data: [] } };
+    await handleStripeWebhook(signedRequest('customer.subscription.updated', subscription, 1700000100), options);
+    expect(await store.get('cus_123', 'premium_analysis')).toMatchObject({ active: false, subscriptionStatus: 'past_due' });
+
+    const invoice = { id: 'in_123', object: 'invoice', customer: 'cus_123', subscription: 'sub_123', amount_paid: 999, currency: 'usd', created: 1700000200 };
+    await handleStripeWebhook(signedRequest('invoice.paid', invoice, 1700000200), options);
+    expect(await store.get('cus_123', 'premium_analysis')).toMatchObject({ active: true });
+
+    // A delayed event from before the payment doesn't revoke access again
+    await handleStripeWebhook(signedRequest('customer.subscription.updated', subscription, 1700000150), options);
+    expect(await store.get('cus_123', 'premium_analysis')).toMatchObject({ active: true });
+
+    await handleStripeWebhook(signedRequest('customer.subscription.deleted', { ...subscription, status: 'canceled' }, 1700000300), options);
+    expect(await store.get('cus_123', 'premium_analysis')).toMatchObject({ active: false, subscriptionStatus: 'canceled' });
+
+    await options.analyticsClient!.flush();
+    expect(sink.events.map(event => event.eventType)).toEqual([
+      'mcp.payment.checkout_completed',
+      'mcp.payment.subscription_updated',
+      'mcp.payment.invoice_paid',
+      'mcp.payment.subscription_updated',
+      'mcp.payment.subscription_deleted',
+    ]);
+    expect(sink.events.map(event => event.entitlementActive)).toEqual([true, false, true, undefined, false]);
+  });
+
+  it('🗄️ KV STORE TEST: Entitlements written by the webhook are visible to every session', async () => {
+    const namespace = createKVNamespace();
+    const webhookStore = new KVEntitlementStore(namespace);
+
+    await handleStripeWebhook(signedRequest('checkout.session.completed', checkoutCompleted), { ...options, store: webhookStore });
+
+    // Each session builds its own store over the same namespace
+    const sessionStore = new KVEntitlementStore(namespace);
+    expect(await sessionStore.get('cus_123', 'premium_analysis')).toMatchObject({ active: true, checkoutSessionId: 'cs_123' });
+    expect(await sessionStore.findBySubscription('sub_123')).toMatchObject({ customerId: 'cus_123', toolName: 'premium_analysis' });
+    expect(await sessionStore.get('cus_123', 'other_tool')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  createCustomEvent,
+  createPromptGetEvent,
+  createResourceReadEvent,
+  createServerInitEvent,
+  createToolCompletedEvent,
+  createToolFailedEvent,
+  createToolFreeQuotaExhaustedEvent,
+  createToolFreeQuotaUsedEvent,
+  createToolPaymentRequiredEvent,
+  createToolStartedEvent,
+  createToolUsageNotBilledEvent,
+} from '../analytics/translator';
+import { describeException, describeToolError } from '../analytics/outcome';
+import { validateEvent } from '../core/event-schemas';
+import { EVENT_TYPES } from '../core/types';
+import type { AnalyticsEvent } from '../core/types';
+import { describe, it, expect } from 'vitest';
+
+const source = { serverName: 'Test Server', serverVersion: '1.0.0', environment: 'test' };
+const call = { toolName: 'search', parameters: { query: 'weather' }, duration: 42 };
+const quota = { freeQuotaLimit: 3, freeQuotaUsed: 3, freeQuotaRemaining: 0, freeQuotaPeriod: 'day' as const, freeQuotaResetsAt: '2025-06-20T00:00:00.000Z' };
+
+// Compile-time check that every event type is handled
+const describeEvent = (event: AnalyticsEvent): string => {
+  switch (event.eventType) {
+    case EVENT_TYPES.TOOL_STARTED:
+    case EVENT_TYPES.TOOL_COMPLETED:
+    case EVENT_TYPES.TOOL_FAILED:
+    case EVENT_TYPES.TOOL_PAYMENT_REQUIRED:
+    case EVENT_TYPES.TOOL_PAYMENT_COMPLETED:
+    case EVENT_TYPES.TOOL_PAYMENT_FAILED:
+    case EVENT_TYPES.TOOL_FREE_QUOTA_USED:
+    case EVENT_TYPES.TOOL_FREE_QUOTA_EXHAUSTED:
+    case EVENT_TYPES.TOOL_USAGE_NOT_BILLED:
+      return event.toolName;
+    case EVENT_TYPES.RESOURCE_READ:
+      return event.resourceName;
+    case EVENT_TYPES.PROMPT_GET:
+      return event.promptName;
+    case EVENT_TYPES.SERVER_INIT:
+      return event.serverName;
+    case EVENT_TYPES.CUSTOM:
+      return event.eventName;
+    case EVENT_TYPES.PAYMENT_CHECKOUT_COMPLETED:
+    case EVENT_TYPES.PAYMENT_SUBSCRIPTION_UPDATED:
+    case EVENT_TYPES.PAYMENT_SUBSCRIPTION_DELETED:
+    case EVENT_TYPES.PAYMENT_INVOICE_PAID:
+      return event.stripeEventId;
+    default: {
+      const unhandled: never = event;
+      return unhandled;
+    }
+  }
+};
+
+describe('🧪 EVENT BUILDER TESTS', () => {
+  it('🏗️ BUILDER TEST: Every builder produces a valid, typed event', () => {
+    const events: AnalyticsEvent[] = [
+      createToolStartedEvent(source, 'search', { query: 'weather' }),
+      createToolCompletedEvent(source, call),
+      createToolFailedEvent(source, call, describeException(new TypeError('boom'))),
+      createToolFailedEvent(source, call, describeToolError({ isError: true, content: [{ type: 'text', text: 'Not found' }] })),
+      createToolPaymentRequiredEvent(source, call, { customerId: 'cus_123', paymentType: 'oneTimeSubscription' }),
+      createResourceReadEvent(source, { resourceName: 'config', resourceUri: 'config://app', duration: 5 }),
+      createPromptGetEvent(source, { promptName: 'review', duration: 5 }, undefined, describeException(new Error('nope'))),
+      createServerInitEvent(source),
+      createToolFreeQuotaUsedEvent(source, call, quota, { customerId: 'cus_123' }),
+      createToolFreeQuotaExhaustedEvent(source, 'search', quota, { customerId: 'cus_123' }),
+      createToolUsageNotBilledEvent(source, 'search', { billingTiming: 'afterSuccess', usageNotBilledReason: 'tool_failed' }, { customerId: 'cus_123' }),
+      createCustomEvent(source, 'signup', { plan: 'pro' }),
+    ];
+
+    for (const event of events) {
+      expect(validateEvent(event)).toBeNull();
+      expect(describeEvent(event)).toBeTruthy();
+    }
+
+    expect(events[2]).toMatchObject({ success: false, errorType: 'TypeError', errorMessage: 'boom', outcome: 'exception' });
+    expect(events[3]).toMatchObject({ errorType: 'ToolError', errorMessage: 'Not found', outcome: 'tool_error' });
+    expect(events[4]).toMatchObject({ paymentStatus: 'required', outcome: 'payment_required', paymentAmount: null, subscriptionId: null });
+    expect(events[6]).toMatchObject({ success: false, outcome: 'exception', errorMessage: 'nope' });
+  });
+
+  it('🧩 CONTEXT TEST: Custom fields never override built-in, session or user fields', () => {
+    const event = createToolCompletedEvent(source, call, {
+      customFields: { team: 'search', eventType: 'spoofed', toolName: 'spoofed', userId: 'spoofed' },
+      mcpData: { sessionId: 'session_123', requestId: 'req_456' },
+      userInfo: { userId: 'user_1' },
+      clientVersion: { name: 'claude-desktop', version: '1.2.0' },
+      piiDetected: ['email'],
+    });
+
+    expect(event).toMatchObject({
+      team: 'search',
+      eventType: 'mcp.tool.completed',
+      toolName: 'search',
+      userId: 'user_1',
+      sessionId: 'session_123',
+      requestId: 'req_456',
+      clientVersion: { name: 'claude-desktop', version: '1.2.0' },
+      piiDetected: ['email'],
+      serverName: 'Test Server',
+      environment: 'test',
+    });
+  });
+});